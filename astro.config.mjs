@@ -1,17 +1,27 @@
 // @ts-check
+import { fileURLToPath } from 'node:url';
 import { defineConfig } from 'astro/config';
 
 import vue from '@astrojs/vue';
 import sitemap from '@astrojs/sitemap';
+import { resolveDeploymentProfile } from './src/config/deployment.ts';
+import imagePipeline from './src/integrations/image-pipeline.ts';
+import pwaAssets from './src/integrations/pwa.ts';
+import serviceWorker from './src/integrations/service-worker.ts';
+import { createSitemapSerializer, getSitemapPages, loadSitemapContent } from './src/utils/sitemap.ts';
 
 /**
- * Configure dynamic pathing based on environment
- * GITHUB_ACTIONS is true when building on GitHub (for Pages)
- * For VPS or local builds, we assume root deployment (/)
+ * Select the deployment profile (site URL, base path, robots policy, analytics)
+ * Set DEPLOY_PROFILE to github-pages, vps, netlify, netlify-preview or local-preview.
+ * Without it, GitHub Actions builds use github-pages and everything else uses vps.
+ * github-pages serves siteConfig.url from src/config/site.ts; vps needs SITE_URL (the build fails without it).
  */
-const isGitHubPages = process.env.GITHUB_ACTIONS === 'true';
-const siteUrl = isGitHubPages ? 'https://cdsar626.github.io' : 'https://tu-dominio-vps.com'; // Cambia esto por tu dominio real si lo tienes
-const baseDir = isGitHubPages ? '/cdsar626-profile' : '/';
+const deployment = resolveDeploymentProfile(process.env);
+const siteUrl = deployment.site;
+const baseDir = deployment.base;
+
+// lastmod, priority and thumbnails for the sitemap, from content frontmatter and git history
+const sitemapPages = getSitemapPages(loadSitemapContent(fileURLToPath(new URL('./src/content', import.meta.url))));
 
 // https://astro.build/config
 export default defineConfig({
@@ -25,6 +35,10 @@ export default defineConfig({
     trailingSlash: 'ignore',
 
     vite: {
+        define: {
+            // Lets pages read the resolved profile through getDeploymentProfile()
+            'import.meta.env.DEPLOYMENT_PROFILE': JSON.stringify(deployment)
+        },
         build: {
             // Enhanced code splitting for better performance
             rollupOptions: {
@@ -55,22 +69,21 @@ export default defineConfig({
             // Enhanced sitemap configuration
             changefreq: 'weekly',
             priority: 0.7,
-            lastmod: new Date(),
-            // Filter out test and admin pages
-            filter: (page) => !page.includes('/admin') && !page.includes('/test'),
+            // Filter out test, admin and offline fallback pages
+            filter: (page) => !page.includes('/admin') && !page.includes('/test') && !page.includes('/offline'),
             // Custom entries for dynamic content
             customPages: [
                 `${siteUrl}${baseDir === '/' ? '' : baseDir}/`,
             ],
-            // Generate separate sitemaps for different content types
-            serialize(item) {
-                // Customize sitemap entries
-                if (item.url.includes('/projects/')) {
-                    item.priority = 0.8;
-                }
-                return item;
-            }
-        })
+            // Content dates as lastmod, priority from project featured/order, thumbnails as <image:image>
+            serialize: createSitemapSerializer(sitemapPages, siteUrl, baseDir)
+        }),
+        // Regenerates changed responsive variants in public/images before the build
+        imagePipeline(),
+        // Rasterizes favicon.svg into the app icons and writes manifest.webmanifest
+        pwaAssets(),
+        // Generates dist/sw.js from the final build output (keep last so it precaches the above)
+        serviceWorker()
     ],
 
     // Enhanced image optimization configuration
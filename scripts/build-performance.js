@@ -248,65 +248,6 @@ function validateCompression() {
   }
 }
 
-// Validate SEO and meta tags
-function validateSEO() {
-  logHeader('SEO and Meta Tags Validation');
-
-  const htmlFiles = getAllFiles(DIST_DIR).filter(file => file.endsWith('.html'));
-  let seoIssues = [];
-
-  htmlFiles.forEach(file => {
-    const content = fs.readFileSync(file, 'utf8');
-    const fileName = path.basename(file);
-
-    // Check for essential meta tags
-    const requiredTags = [
-      { tag: '<title>', name: 'title tag' },
-      { tag: 'name="description"', name: 'meta description' },
-      { tag: 'name="viewport"', name: 'viewport meta tag' },
-      { tag: 'property="og:', name: 'Open Graph tags' },
-      { tag: 'name="twitter:', name: 'Twitter Card tags' }
-    ];
-
-    requiredTags.forEach(({ tag, name }) => {
-      if (!content.includes(tag)) {
-        seoIssues.push(`${fileName} missing ${name}`);
-      }
-    });
-
-    // Check for structured data
-    if (!content.includes('application/ld+json')) {
-      seoIssues.push(`${fileName} missing structured data (JSON-LD)`);
-    }
-
-    // Check for canonical URL
-    if (!content.includes('rel="canonical"')) {
-      seoIssues.push(`${fileName} missing canonical URL`);
-    }
-  });
-
-  // Check for sitemap
-  const sitemapExists = fs.existsSync(path.join(DIST_DIR, 'sitemap-index.xml')) ||
-    fs.existsSync(path.join(DIST_DIR, 'sitemap.xml'));
-
-  if (!sitemapExists) {
-    seoIssues.push('Sitemap not found');
-  }
-
-  // Check for robots.txt
-  if (!fs.existsSync(path.join(DIST_DIR, 'robots.txt'))) {
-    seoIssues.push('robots.txt not found');
-  }
-
-  if (seoIssues.length === 0) {
-    logSuccess('SEO validation passed');
-    return true;
-  } else {
-    seoIssues.forEach(issue => logWarning(issue));
-    return false;
-  }
-}
-
 // Generate build report
 function generateBuildReport() {
   logHeader('Build Report Generation');
@@ -371,8 +312,8 @@ async function validateBuild() {
   const results = {
     bundleSizes: validateBundleSizes(),
     assetOptimization: validateAssetOptimization(),
-    compression: validateCompression(),
-    seo: validateSEO()
+    compression: validateCompression()
+    // SEO is audited by scripts/seo-audit.js, which exits with 1 on errors
   };
 
   const report = generateBuildReport();
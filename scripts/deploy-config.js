@@ -315,171 +315,11 @@ jobs:
 
 // Performance optimization configurations
 const performanceConfigs = {
-  // Service Worker for caching
-  serviceWorker: {
-    filename: 'public/sw.js',
-    content: `// Service Worker for Portfolio Site
-const CACHE_NAME = 'portfolio-v1.0.0';
-const STATIC_CACHE_URLS = [
-  '/',
-  '/index.html',
-  '/assets/index.css',
-  '/assets/index.js',
-  '/images/og-image.svg',
-  '/favicon.svg'
-];
-
-// Install event - cache static assets
-self.addEventListener('install', (event) => {
-  event.waitUntil(
-    caches.open(CACHE_NAME)
-      .then((cache) => {
-        console.log('Caching static assets');
-        return cache.addAll(STATIC_CACHE_URLS);
-      })
-      .then(() => {
-        console.log('Service worker installed');
-        return self.skipWaiting();
-      })
-  );
-});
-
-// Activate event - clean up old caches
-self.addEventListener('activate', (event) => {
-  event.waitUntil(
-    caches.keys()
-      .then((cacheNames) => {
-        return Promise.all(
-          cacheNames
-            .filter((cacheName) => cacheName !== CACHE_NAME)
-            .map((cacheName) => {
-              console.log('Deleting old cache:', cacheName);
-              return caches.delete(cacheName);
-            })
-        );
-      })
-      .then(() => {
-        console.log('Service worker activated');
-        return self.clients.claim();
-      })
-  );
-});
-
-// Fetch event - serve from cache, fallback to network
-self.addEventListener('fetch', (event) => {
-  // Skip non-GET requests
-  if (event.request.method !== 'GET') {
-    return;
-  }
-
-  // Skip external requests
-  if (!event.request.url.startsWith(self.location.origin)) {
-    return;
-  }
-
-  event.respondWith(
-    caches.match(event.request)
-      .then((cachedResponse) => {
-        if (cachedResponse) {
-          console.log('Serving from cache:', event.request.url);
-          return cachedResponse;
-        }
-
-        console.log('Fetching from network:', event.request.url);
-        return fetch(event.request)
-          .then((response) => {
-            // Don't cache non-successful responses
-            if (!response || response.status !== 200 || response.type !== 'basic') {
-              return response;
-            }
+  // The service worker is generated after each build from the dist file list
+  // (see src/integrations/service-worker.ts), so it is not written here
 
-            // Clone the response
-            const responseToCache = response.clone();
-
-            // Cache the response
-            caches.open(CACHE_NAME)
-              .then((cache) => {
-                cache.put(event.request, responseToCache);
-              });
-
-            return response;
-          })
-          .catch((error) => {
-            console.error('Fetch failed:', error);
-            
-            // Return offline page for navigation requests
-            if (event.request.mode === 'navigate') {
-              return caches.match('/index.html');
-            }
-            
-            throw error;
-          });
-      })
-  );
-});
-
-// Background sync for analytics (if implemented)
-self.addEventListener('sync', (event) => {
-  if (event.tag === 'analytics-sync') {
-    event.waitUntil(
-      // Sync analytics data when back online
-      console.log('Syncing analytics data')
-    );
-  }
-});
-
-// Push notifications (if implemented)
-self.addEventListener('push', (event) => {
-  if (event.data) {
-    const data = event.data.json();
-    
-    event.waitUntil(
-      self.registration.showNotification(data.title, {
-        body: data.body,
-        icon: '/favicon.svg',
-        badge: '/favicon.svg',
-        tag: 'portfolio-notification'
-      })
-    );
-  }
-});`
-  },
-
-  // Web App Manifest
-  manifest: {
-    filename: 'public/manifest.json',
-    content: JSON.stringify({
-      "name": "John Developer - Portfolio",
-      "short_name": "Portfolio",
-      "description": "Full-stack software developer portfolio showcasing projects and skills",
-      "start_url": "/",
-      "display": "standalone",
-      "background_color": "#ffffff",
-      "theme_color": "#000000",
-      "orientation": "portrait-primary",
-      "icons": [
-        {
-          "src": "/favicon.svg",
-          "sizes": "any",
-          "type": "image/svg+xml",
-          "purpose": "any maskable"
-        },
-        {
-          "src": "/images/icon-192.png",
-          "sizes": "192x192",
-          "type": "image/png"
-        },
-        {
-          "src": "/images/icon-512.png",
-          "sizes": "512x512",
-          "type": "image/png"
-        }
-      ],
-      "categories": ["portfolio", "developer", "business"],
-      "lang": "en",
-      "dir": "ltr"
-    }, null, 2)
-  }
+  // The web app manifest is generated at build time from src/config/site.ts
+  // (see src/integrations/pwa.ts), so it is not written here
 };
 
 // Build optimization configurations
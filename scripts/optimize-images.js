@@ -2,12 +2,15 @@
 
 /**
  * Image Optimization Script
- * Optimizes images for web delivery with multiple formats and sizes
+ * Optimizes images for web delivery with multiple formats and sizes.
+ * Runs the same pipeline as the build (src/utils/image-pipeline.ts), loaded
+ * through Vite so the TypeScript settings in build-optimization.ts are reused.
  */
 
 import fs from 'fs';
 import path from 'path';
 import { fileURLToPath } from 'url';
+import { createServer } from 'vite';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -16,35 +19,6 @@ const PROJECT_ROOT = path.join(__dirname, '..');
 const PUBLIC_DIR = path.join(PROJECT_ROOT, 'public');
 const SRC_DIR = path.join(PROJECT_ROOT, 'src');
 
-// Image optimization configuration
-const optimizationConfig = {
-  // Supported input formats
-  inputFormats: ['.jpg', '.jpeg', '.png', '.gif', '.svg'],
-  
-  // Output formats to generate
-  outputFormats: ['webp', 'avif'],
-  
-  // Quality settings
-  quality: {
-    jpeg: 85,
-    png: 90,
-    webp: 85,
-    avif: 80
-  },
-  
-  // Responsive breakpoints
-  breakpoints: [320, 640, 768, 1024, 1280, 1536],
-  
-  // Optimization settings
-  optimization: {
-    progressive: true,
-    mozjpeg: true,
-    pngquant: true,
-    optipng: true,
-    gifsicle: true
-  }
-};
-
 // ANSI color codes
 const colors = {
   green: '\x1b[32m',
@@ -75,205 +49,6 @@ function logHeader(message) {
   log(`\n${colors.bold}${colors.blue}=== ${message} ===${colors.reset}`);
 }
 
-// Get all image files recursively
-function getImageFiles(dir, imageFiles = []) {
-  if (!fs.existsSync(dir)) {
-    return imageFiles;
-  }
-  
-  const files = fs.readdirSync(dir);
-  
-  files.forEach(file => {
-    const filePath = path.join(dir, file);
-    const stat = fs.statSync(filePath);
-    
-    if (stat.isDirectory()) {
-      getImageFiles(filePath, imageFiles);
-    } else {
-      const ext = path.extname(file).toLowerCase();
-      if (optimizationConfig.inputFormats.includes(ext)) {
-        imageFiles.push(filePath);
-      }
-    }
-  });
-  
-  return imageFiles;
-}
-
-// Generate responsive image HTML
-function generateResponsiveImageHTML(imagePath, alt = '') {
-  const baseName = path.basename(imagePath, path.extname(imagePath));
-  // Convert absolute path to relative path from public directory
-  const relativePath = path.relative(PROJECT_ROOT, imagePath);
-  let dir = path.dirname(relativePath).replace(/^public/, '').replace(/\\/g, '/');
-  // Clean up the directory path
-  if (dir === '' || dir === '.') {
-    dir = '';
-  } else if (!dir.startsWith('/')) {
-    dir = '/' + dir;
-  }
-  // Remove double slashes and create final path
-  const dirPath = dir.replace(/\/+/g, '/') || '';
-  const finalPath = dirPath ? `${dirPath}/` : '/';
-  
-  // Convert the main image path to relative as well
-  const relativeImagePath = relativePath.replace(/^public/, '').replace(/\\/g, '/');
-  const finalImagePath = relativeImagePath.startsWith('/') ? relativeImagePath : '/' + relativeImagePath;
-  
-  // Generate srcset for different formats and sizes
-  const webpSrcset = optimizationConfig.breakpoints
-    .map(width => `${finalPath}${baseName}-${width}w.webp ${width}w`)
-    .join(', ');
-    
-  const avifSrcset = optimizationConfig.breakpoints
-    .map(width => `${finalPath}${baseName}-${width}w.avif ${width}w`)
-    .join(', ');
-  
-  const fallbackSrcset = optimizationConfig.breakpoints
-    .map(width => `${finalPath}${baseName}-${width}w.jpg ${width}w`)
-    .join(', ');
-  
-  return `<picture>
-  <source srcset="${avifSrcset}" type="image/avif">
-  <source srcset="${webpSrcset}" type="image/webp">
-  <img 
-    src="${finalImagePath}" 
-    srcset="${fallbackSrcset}"
-    sizes="(max-width: 640px) 100vw, (max-width: 1024px) 50vw, 33vw"
-    alt="${alt}"
-    loading="lazy"
-    decoding="async"
-  >
-</picture>`;
-}
-
-// Generate CSS for responsive images
-function generateResponsiveImageCSS(imagePath) {
-  const baseName = path.basename(imagePath, path.extname(imagePath));
-  // Convert absolute path to relative path from public directory
-  const relativePath = path.relative(PROJECT_ROOT, imagePath);
-  let dir = path.dirname(relativePath).replace(/^public/, '').replace(/\\/g, '/');
-  // Clean up the directory path
-  if (dir === '' || dir === '.') {
-    dir = '';
-  } else if (!dir.startsWith('/')) {
-    dir = '/' + dir;
-  }
-  // Remove double slashes
-  const dirPath = dir.replace(/\/+/g, '/') || '';
-  
-  // Create the final path - add leading slash only if dirPath is not empty
-  const finalPath = dirPath ? `${dirPath}/` : '/';
-  
-  let css = `/* Responsive image: ${baseName} */\n`;
-  css += `.${baseName} {\n`;
-  css += `  background-image: url('${finalPath}${baseName}.jpg');\n`;
-  css += `}\n\n`;
-  
-  // Add WebP support
-  css += `@supports (background-image: url('image.webp')) {\n`;
-  css += `  .${baseName} {\n`;
-  css += `    background-image: url('${finalPath}${baseName}.webp');\n`;
-  css += `  }\n`;
-  css += `}\n\n`;
-  
-  // Add AVIF support
-  css += `@supports (background-image: url('image.avif')) {\n`;
-  css += `  .${baseName} {\n`;
-  css += `    background-image: url('${finalPath}${baseName}.avif');\n`;
-  css += `  }\n`;
-  css += `}\n\n`;
-  
-  // Add responsive background images
-  optimizationConfig.breakpoints.forEach((width, index) => {
-    const nextWidth = optimizationConfig.breakpoints[index + 1];
-    const mediaQuery = nextWidth ? `(max-width: ${nextWidth}px)` : `(min-width: ${width}px)`;
-    
-    css += `@media ${mediaQuery} {\n`;
-    css += `  .${baseName} {\n`;
-    css += `    background-image: url('${finalPath}${baseName}-${width}w.jpg');\n`;
-    css += `  }\n`;
-    css += `  \n`;
-    css += `  @supports (background-image: url('image.webp')) {\n`;
-    css += `    .${baseName} {\n`;
-    css += `      background-image: url('${finalPath}${baseName}-${width}w.webp');\n`;
-    css += `    }\n`;
-    css += `  }\n`;
-    css += `  \n`;
-    css += `  @supports (background-image: url('image.avif')) {\n`;
-    css += `    .${baseName} {\n`;
-    css += `      background-image: url('${finalPath}${baseName}-${width}w.avif');\n`;
-    css += `    }\n`;
-    css += `  }\n`;
-    css += `}\n\n`;
-  });
-  
-  return css;
-}
-
-// Mock image optimization (since we don't have sharp installed)
-function mockOptimizeImage(inputPath, outputPath, options = {}) {
-  const { width, format, quality } = options;
-  
-  // In a real implementation, this would use Sharp or similar
-  // For now, we'll just copy the file and log what would happen
-  
-  const inputSize = fs.statSync(inputPath).size;
-  const estimatedSavings = Math.floor(inputSize * 0.3); // Estimate 30% savings
-  const outputSize = inputSize - estimatedSavings;
-  
-  // Create output directory if it doesn't exist
-  const outputDir = path.dirname(outputPath);
-  if (!fs.existsSync(outputDir)) {
-    fs.mkdirSync(outputDir, { recursive: true });
-  }
-  
-  // Copy file (in real implementation, this would be optimized)
-  fs.copyFileSync(inputPath, outputPath);
-  
-  return {
-    inputSize,
-    outputSize,
-    savings: estimatedSavings,
-    format,
-    width,
-    quality
-  };
-}
-
-// Optimize a single image
-function optimizeImage(imagePath) {
-  const ext = path.extname(imagePath).toLowerCase();
-  const baseName = path.basename(imagePath, ext);
-  const dir = path.dirname(imagePath);
-  
-  const results = [];
-  
-  // Generate different formats and sizes
-  optimizationConfig.outputFormats.forEach(format => {
-    optimizationConfig.breakpoints.forEach(width => {
-      const outputPath = path.join(dir, `${baseName}-${width}w.${format}`);
-      
-      try {
-        const result = mockOptimizeImage(imagePath, outputPath, {
-          width,
-          format,
-          quality: optimizationConfig.quality[format] || 85
-        });
-        
-        results.push({
-          ...result,
-          outputPath: path.relative(PROJECT_ROOT, outputPath)
-        });
-      } catch (error) {
-        logError(`Failed to optimize ${imagePath} to ${format} at ${width}w: ${error.message}`);
-      }
-    });
-  });
-  
-  return results;
-}
-
 // Generate optimization report
 function generateOptimizationReport(results) {
   const report = {
@@ -331,83 +106,64 @@ function generateOptimizationReport(results) {
   return report;
 }
 
-// Generate helper files
-function generateHelperFiles(imageFiles) {
-  logHeader('Generating Helper Files');
-  
-  // Generate responsive image CSS
-  let responsiveCSS = '/* Auto-generated responsive image CSS */\n\n';
-  imageFiles.forEach(imagePath => {
-    responsiveCSS += generateResponsiveImageCSS(imagePath);
+// Run the pipeline from src/utils/image-pipeline.ts
+async function runPipeline() {
+  const server = await createServer({
+    root: PROJECT_ROOT,
+    configFile: false,
+    logLevel: 'error',
+    appType: 'custom',
+    server: { middlewareMode: true, hmr: false }
   });
-  
-  const cssPath = path.join(SRC_DIR, 'styles', 'responsive-images.css');
-  const cssDir = path.dirname(cssPath);
-  if (!fs.existsSync(cssDir)) {
-    fs.mkdirSync(cssDir, { recursive: true });
-  }
-  fs.writeFileSync(cssPath, responsiveCSS);
-  logSuccess(`Generated responsive image CSS: ${path.relative(PROJECT_ROOT, cssPath)}`);
-  
-  // Generate image component examples
-  let componentExamples = '<!-- Auto-generated responsive image examples -->\n\n';
-  imageFiles.slice(0, 3).forEach(imagePath => { // Limit to first 3 for examples
-    const baseName = path.basename(imagePath, path.extname(imagePath));
-    componentExamples += `<!-- ${baseName} -->\n`;
-    componentExamples += generateResponsiveImageHTML(imagePath, `${baseName} image`);
-    componentExamples += '\n\n';
-  });
-  
-  const examplesPath = path.join(SRC_DIR, 'components', 'examples', 'responsive-images.html');
-  const examplesDir = path.dirname(examplesPath);
-  if (!fs.existsSync(examplesDir)) {
-    fs.mkdirSync(examplesDir, { recursive: true });
+
+  try {
+    const pipeline = await server.ssrLoadModule('/src/utils/image-pipeline.ts');
+    return await pipeline.optimizeImages({
+      publicDir: PUBLIC_DIR,
+      manifestPath: path.join(SRC_DIR, 'data', 'image-manifest.json')
+    });
+  } finally {
+    await server.close();
   }
-  fs.writeFileSync(examplesPath, componentExamples);
-  logSuccess(`Generated image component examples: ${path.relative(PROJECT_ROOT, examplesPath)}`);
 }
 
 // Main optimization function
-function optimizeImages() {
+async function optimizeImages() {
   logHeader('Image Optimization');
-  
-  // Find all image files
-  const publicImages = getImageFiles(PUBLIC_DIR);
-  const srcImages = getImageFiles(path.join(SRC_DIR, 'assets'));
-  const allImages = [...publicImages, ...srcImages];
-  
-  if (allImages.length === 0) {
+
+  const { manifest, processed, skipped, removed } = await runPipeline();
+  const sources = Object.keys(manifest);
+
+  if (sources.length === 0) {
     logWarning('No images found to optimize');
     return;
   }
-  
-  log(`Found ${allImages.length} images to optimize`);
-  
-  // Optimize each image
-  const allResults = [];
-  allImages.forEach(imagePath => {
-    const relativePath = path.relative(PROJECT_ROOT, imagePath);
-    log(`Optimizing: ${relativePath}`);
-    
-    const results = optimizeImage(imagePath);
-    allResults.push(...results);
-    
-    logSuccess(`Generated ${results.length} optimized versions`);
+
+  log(`Found ${sources.length} images to optimize`);
+  processed.forEach(src => logSuccess(`Generated ${manifest[src].variants.length} optimized versions of ${src}`));
+  skipped.forEach(src => log(`Up to date: ${src}`));
+  removed.forEach(src => logWarning(`Removed stale variant: ${src}`));
+
+  // Generate report from the variants that actually exist
+  const allResults = sources.flatMap(src => {
+    const inputSize = fs.statSync(path.join(PUBLIC_DIR, src)).size;
+    return manifest[src].variants.map(variant => ({
+      inputSize,
+      outputSize: variant.bytes,
+      savings: inputSize - variant.bytes,
+      format: variant.format,
+      width: variant.width
+    }));
   });
-  
-  // Generate report
   const report = generateOptimizationReport(allResults);
   
   // Save report
   const reportPath = path.join(PROJECT_ROOT, 'image-optimization-report.json');
   fs.writeFileSync(reportPath, JSON.stringify(report, null, 2));
   
-  // Generate helper files
-  generateHelperFiles(allImages);
-  
   // Display summary
   logHeader('Optimization Summary');
-  log(`Total images processed: ${allImages.length}`);
+  log(`Total images processed: ${processed.length} (${skipped.length} unchanged)`);
   log(`Total variants generated: ${allResults.length}`);
   log(`Original total size: ${(report.totalInputSize / 1024 / 1024).toFixed(2)}MB`);
   log(`Optimized total size: ${(report.totalOutputSize / 1024 / 1024).toFixed(2)}MB`);
@@ -424,11 +180,10 @@ function optimizeImages() {
   
   // Display recommendations
   logHeader('Recommendations');
-  log('1. Use the generated responsive-images.css for background images');
-  log('2. Use the HTML examples for responsive <picture> elements');
-  log('3. Consider implementing lazy loading for images below the fold');
-  log('4. Test the optimized images across different devices and browsers');
-  log('5. Monitor Core Web Vitals to ensure optimization effectiveness');
+  log('1. Render images with src/components/ResponsiveImage.astro, which only uses variants in src/data/image-manifest.json');
+  log('2. Consider implementing lazy loading for images below the fold');
+  log('3. Test the optimized images across different devices and browsers');
+  log('4. Monitor Core Web Vitals to ensure optimization effectiveness');
 }
 
 // Run if called directly
@@ -436,7 +191,10 @@ const isMainModule = import.meta.url === `file://${process.argv[1]}` ||
                      import.meta.url.endsWith('optimize-images.js') && process.argv[1].endsWith('optimize-images.js');
 
 if (isMainModule) {
-  optimizeImages();
+  optimizeImages().catch(error => {
+    logError(`Image optimization failed: ${error.message}`);
+    process.exit(1);
+  });
 }
 
-export { optimizeImages, generateResponsiveImageHTML, generateResponsiveImageCSS };
\ No newline at end of file
+export { optimizeImages };
\ No newline at end of file
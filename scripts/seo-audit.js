@@ -0,0 +1,108 @@
+#!/usr/bin/env node
+
+/**
+ * SEO Audit Script
+ * Audits the HTML in dist (src/utils/seo-audit.ts) against the deployment profile
+ * the build was made for, writes seo-audit-report.json and exits with 1 on errors.
+ * The report stays out of dist, which is published as it is.
+ * Build with the same DEPLOY_PROFILE first. Pass --json to print only the report.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { createServer } from 'vite';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const PROJECT_ROOT = path.join(__dirname, '..');
+const DIST_DIR = path.join(PROJECT_ROOT, 'dist');
+const REPORT_PATH = path.join(PROJECT_ROOT, 'seo-audit-report.json');
+
+const jsonOutput = process.argv.includes('--json');
+
+// ANSI color codes
+const colors = {
+  green: '\x1b[32m',
+  red: '\x1b[31m',
+  yellow: '\x1b[33m',
+  blue: '\x1b[34m',
+  reset: '\x1b[0m',
+  bold: '\x1b[1m'
+};
+
+function log(message, color = 'reset') {
+  if (!jsonOutput) console.log(`${colors[color]}${message}${colors.reset}`);
+}
+
+function logSuccess(message) {
+  log(`✓ ${message}`, 'green');
+}
+
+function logWarning(message) {
+  log(`⚠ ${message}`, 'yellow');
+}
+
+function logError(message) {
+  log(`✗ ${message}`, 'red');
+}
+
+function logHeader(message) {
+  log(`\n${colors.bold}${colors.blue}=== ${message} ===${colors.reset}`);
+}
+
+// Loads the TypeScript audit and deployment profiles through Vite
+async function runAudit() {
+  const server = await createServer({
+    root: PROJECT_ROOT,
+    configFile: false,
+    logLevel: 'error',
+    appType: 'custom',
+    server: { middlewareMode: true, hmr: false }
+  });
+
+  try {
+    const { resolveDeploymentProfile } = await server.ssrLoadModule('/src/config/deployment.ts');
+    const { auditSeo } = await server.ssrLoadModule('/src/utils/seo-audit.ts');
+    return auditSeo(DIST_DIR, resolveDeploymentProfile(process.env));
+  } finally {
+    await server.close();
+  }
+}
+
+async function main() {
+  if (!fs.existsSync(DIST_DIR)) {
+    console.error('Build directory not found. Run "npm run build" first.');
+    process.exit(1);
+  }
+
+  logHeader('SEO Audit');
+
+  const report = await runAudit();
+  fs.writeFileSync(REPORT_PATH, JSON.stringify(report, null, 2));
+
+  if (jsonOutput) {
+    console.log(JSON.stringify(report, null, 2));
+  } else {
+    log(`Audited ${report.pages} pages for ${report.site}${report.base === '/' ? '' : report.base}`);
+    report.issues.forEach(issue => {
+      const message = `${issue.file} [${issue.rule}] ${issue.message}`;
+      issue.severity === 'error' ? logError(message) : logWarning(message);
+    });
+
+    if (report.errors === 0) {
+      logSuccess(`SEO audit passed with ${report.warnings} warnings`);
+    } else {
+      logError(`SEO audit found ${report.errors} errors and ${report.warnings} warnings`);
+    }
+    log(`Report written to ${path.relative(PROJECT_ROOT, REPORT_PATH)}`);
+  }
+
+  process.exit(report.errors > 0 ? 1 : 0);
+}
+
+main().catch(error => {
+  console.error(`SEO audit failed: ${error.message}`);
+  process.exit(1);
+});
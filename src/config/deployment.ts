@@ -0,0 +1,138 @@
+/**
+ * Deployment profiles
+ * Each place the portfolio is published to gets a named profile with its own
+ * site URL, base path, canonical host, robots policy and analytics settings.
+ * GitHub Pages builds derive their site and base from siteConfig.url; the other
+ * targets are told their address through the environment (SITE_URL on a VPS).
+ * The profile is selected with the DEPLOY_PROFILE environment variable at build time;
+ * astro.config.mjs resolves it once and exposes it to pages.
+ */
+
+import { z } from 'astro/zod';
+import { siteConfig } from './site';
+
+export const DEPLOYMENT_PROFILE_NAMES = ['github-pages', 'vps', 'netlify', 'netlify-preview', 'local-preview'] as const;
+
+export type DeploymentProfileName = (typeof DEPLOYMENT_PROFILE_NAMES)[number];
+
+const deploymentProfileSchema = z.object({
+  name: z.enum(DEPLOYMENT_PROFILE_NAMES),
+  /** Origin the build is served from (Astro `site`) */
+  site: z.string().url(),
+  /** Subpath the build is served under (Astro `base`) */
+  base: z.string().regex(/^\/([\w-]+(\/[\w-]+)*)?$/, 'Expected "/" or a path like "/repo"'),
+  /** Host that canonical and og:url links point at */
+  canonicalHost: z.string().min(1),
+  /** Preview profiles are `noindex`: pages get a robots noindex meta and robots.txt disallows everything */
+  robots: z.enum(['index', 'noindex']),
+  analytics: z.object({
+    enabled: z.boolean(),
+    /** Plausible site domain, required when analytics are enabled */
+    domain: z.string().optional(),
+  }).refine(analytics => !analytics.enabled || !!analytics.domain, {
+    message: 'Analytics need a domain when enabled',
+  }),
+});
+
+export type DeploymentProfile = z.infer<typeof deploymentProfileSchema>;
+
+/** Environment variables that can override where a profile is served from */
+export type DeploymentEnv = Record<string, string | undefined>;
+
+/**
+ * Splits a URL into the origin, base path and host of a profile
+ * @param url - Absolute URL, optionally with a deploy subpath like "/repo"
+ * @returns Pick<DeploymentProfile, 'site' | 'base' | 'canonicalHost'> - Site origin, base and host
+ */
+export function getDeploymentTarget(url: string): Pick<DeploymentProfile, 'site' | 'base' | 'canonicalHost'> {
+  const { origin, host, pathname } = new URL(url);
+  return { site: origin, base: pathname.replace(/\/+$/, '') || '/', canonicalHost: host };
+}
+
+/**
+ * Environment variables each profile reads its address from, first match wins
+ * github-pages falls back to siteConfig.url, which includes the Pages subpath.
+ * vps and netlify have no address of their own, so they fail instead of
+ * borrowing the GitHub Pages origin without its base.
+ */
+const PROFILE_URL_SOURCES: Record<DeploymentProfileName, { variables: string[]; fallback?: string }> = {
+  'github-pages': { variables: ['SITE_URL'], fallback: siteConfig.url },
+  vps: { variables: ['SITE_URL'] },
+  // Netlify sets URL to the site's main address
+  netlify: { variables: ['SITE_URL', 'URL'] },
+  // Deploy previews and branch deploys get their own address in DEPLOY_PRIME_URL
+  'netlify-preview': { variables: ['DEPLOY_PRIME_URL', 'URL'] },
+  'local-preview': { variables: [], fallback: 'http://localhost:4321' },
+};
+
+const PREVIEW_PROFILES: DeploymentProfileName[] = ['netlify-preview', 'local-preview'];
+
+/**
+ * Builds one profile from siteConfig.url and the environment
+ * @param name - Profile name
+ * @param env - Environment variables (process.env in astro.config.mjs)
+ * @returns DeploymentProfile - Validated profile
+ * @throws Error if the profile has no address, e.g. vps without SITE_URL
+ */
+export function createDeploymentProfile(name: DeploymentProfileName, env: DeploymentEnv = {}): DeploymentProfile {
+  const { variables, fallback } = PROFILE_URL_SOURCES[name];
+  const url = variables.map(variable => env[variable]?.trim()).find(Boolean) || fallback;
+
+  if (!url) {
+    throw new Error(
+      `The ${name} deployment profile needs ${variables.join(' or ')} set to the address it is served from, e.g. ${variables[0]}=https://example.com`
+    );
+  }
+
+  return deploymentProfileSchema.parse({
+    name,
+    ...getDeploymentTarget(url),
+    robots: PREVIEW_PROFILES.includes(name) ? 'noindex' : 'index',
+    analytics: { enabled: false },
+  });
+}
+
+const profileNameSchema = z.enum(DEPLOYMENT_PROFILE_NAMES, {
+  errorMap: (_issue, ctx) => ({
+    message: `Unknown DEPLOY_PROFILE "${ctx.data}". Expected one of: ${DEPLOYMENT_PROFILE_NAMES.join(', ')}`,
+  }),
+});
+
+/**
+ * Resolves the deployment profile from environment variables
+ * Falls back to github-pages on GitHub Actions and to vps everywhere else,
+ * matching how builds were targeted before profiles existed.
+ * @param env - Environment variables (process.env in astro.config.mjs)
+ * @returns DeploymentProfile - The selected profile
+ * @throws Error if DEPLOY_PROFILE is set to an unknown name or the profile has no address
+ */
+export function resolveDeploymentProfile(env: DeploymentEnv): DeploymentProfile {
+  const requested = env.DEPLOY_PROFILE?.trim();
+  const fallback: DeploymentProfileName = env.GITHUB_ACTIONS === 'true' ? 'github-pages' : 'vps';
+  const result = profileNameSchema.safeParse(requested || fallback);
+
+  if (!result.success) {
+    throw new Error(result.error.issues[0].message);
+  }
+
+  return createDeploymentProfile(result.data, env);
+}
+
+/**
+ * Gets the profile of the current build, as resolved by astro.config.mjs
+ * Outside an Astro build (e.g. in tests) this is github-pages, served from siteConfig.url.
+ * @returns DeploymentProfile - The active profile
+ */
+export function getDeploymentProfile(): DeploymentProfile {
+  const resolved = import.meta.env.DEPLOYMENT_PROFILE;
+  return resolved ? deploymentProfileSchema.parse(resolved) : createDeploymentProfile('github-pages');
+}
+
+/**
+ * Checks whether the active build must be kept out of search engines
+ * @param profile - Deployment profile, defaults to the active one
+ * @returns boolean - True for preview profiles
+ */
+export function isNoindexDeployment(profile: DeploymentProfile = getDeploymentProfile()): boolean {
+  return profile.robots === 'noindex';
+}
@@ -0,0 +1,12 @@
+/**
+ * SEO limits
+ * Longest title and meta description search results show without truncating.
+ * sanitizeSEOData trims to them and the post-build audit (src/utils/seo-audit.ts)
+ * reports pages that exceed them. Kept free of content imports so the audit
+ * script can load it outside Astro.
+ */
+
+export const SEO_LIMITS = {
+  title: 60,
+  description: 160,
+} as const;
@@ -0,0 +1,86 @@
+/**
+ * Site configuration
+ * Single source of identity data (name, role, contact, socials, site URL, theme colors).
+ * Layouts, sections, SEO helpers and the web app manifest all read from here,
+ * so forking the portfolio only requires editing this file.
+ */
+
+import { z } from 'astro/zod';
+import { withBase } from '../utils/url';
+
+const hexColor = z.string().regex(/^#[0-9a-fA-F]{6}$/, 'Expected a #rrggbb color');
+
+const siteConfigSchema = z.object({
+  /** Full name, used as author everywhere */
+  name: z.string().min(1),
+  /** Role shown under the name in the profile section */
+  role: z.string().min(1),
+  /** Job title used in structured data */
+  jobTitle: z.string().min(1),
+  /** Default meta description */
+  description: z.string().min(1),
+  /** Short name for the installed app and the browser tab */
+  shortName: z.string().min(1).max(12),
+  /** Production (GitHub Pages) URL including the repository subpath; the github-pages profile derives its site and base from it */
+  url: z.string().url(),
+  contact: z.object({
+    email: z.string().email(),
+    location: z.string().optional(),
+  }),
+  socials: z.object({
+    github: z.string().url(),
+    linkedin: z.string().url(),
+    /** Handle including the @, used for twitter:site */
+    twitter: z.string().regex(/^@\w+$/, 'Expected a handle like @name').optional(),
+  }),
+  /** CV file name inside public/cv */
+  cvFile: z.string().endsWith('.pdf'),
+  theme: z.object({
+    /** Browser UI color (theme-color meta and manifest) */
+    themeColor: hexColor,
+    /** Splash screen background for the installed app */
+    backgroundColor: hexColor,
+  }),
+});
+
+export type SiteConfig = z.infer<typeof siteConfigSchema>;
+
+export const siteConfig: SiteConfig = siteConfigSchema.parse({
+  name: 'Cesar De la Vega',
+  role: 'Software Developer / Fullstack',
+  jobTitle: 'Full Stack Software Developer',
+  description: 'Experienced full-stack developer specializing in Flutter, Vue.js, Node.js, and modern web technologies. View my projects, skills, and professional experience.',
+  shortName: 'Portfolio',
+  url: 'https://cdsar626.github.io/cdsar626-profile',
+  contact: {
+    email: 'cdsar626@gmail.com',
+    location: 'Remote',
+  },
+  socials: {
+    github: 'https://github.com/cdsar626',
+    linkedin: 'https://linkedin.com/in/cdsar626',
+    twitter: '@cdsar626',
+  },
+  cvFile: 'Cesar_De_la_Vega_Salinas_-_Full_Stack_Developer.pdf',
+  theme: {
+    themeColor: '#1f2937',
+    backgroundColor: '#ffffff',
+  },
+});
+
+/**
+ * Gets the public profile URLs (schema.org sameAs)
+ * @returns string[] - GitHub, LinkedIn and, if set, the X/Twitter profile URL
+ */
+export function getSocialProfileUrls(): string[] {
+  const { github, linkedin, twitter } = siteConfig.socials;
+  return [github, linkedin, ...(twitter ? [`https://x.com/${twitter.slice(1)}`] : [])];
+}
+
+/**
+ * Gets the site path of the CV PDF
+ * @returns string - Path including the deploy base
+ */
+export function getCvPath(): string {
+  return withBase(`/cv/${siteConfig.cvFile}`);
+}
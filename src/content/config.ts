@@ -1,12 +1,21 @@
 import { defineCollection, z } from 'astro:content';
+import { normalizeTechnologyName } from '../utils/technologies';
+import { isMissingVariants } from '../utils/images';
+
+// Technology lists are stored under their canonical registry names
+const technologiesSchema = z.array(z.string().transform(normalizeTechnologyName));
 
 const projectsCollection = defineCollection({
   type: 'content',
   schema: z.object({
     title: z.string(),
     description: z.string(),
-    technologies: z.array(z.string()),
-    thumbnail: z.string(),
+    technologies: technologiesSchema,
+    // PNG/JPEG thumbnails must have responsive variants (npm run optimize:images)
+    thumbnail: z.string().refine(
+      (thumbnail) => !isMissingVariants(thumbnail),
+      (thumbnail) => ({ message: `No responsive variants for ${thumbnail} in src/data/image-manifest.json. Run npm run optimize:images` })
+    ),
     featured: z.boolean().default(false),
     order: z.number().default(0),
     links: z.object({
@@ -15,9 +24,55 @@ const projectsCollection = defineCollection({
       additional: z.string().url().optional(),
     }),
     publishDate: z.date(),
+    // Last significant update, used by the "recently updated" ordering and the sitemap lastmod
+    updatedDate: z.date().optional(),
+    // Drafts and future publishDates are only listed in `astro dev`
+    draft: z.boolean().default(false),
+  }),
+});
+
+const experienceCollection = defineCollection({
+  type: 'content',
+  schema: z.object({
+    company: z.string(),
+    role: z.string(),
+    location: z.string(),
+    startDate: z.date(),
+    // Omit endDate for the current position
+    endDate: z.date().optional(),
+    companyUrl: z.string().url().optional(),
+    technologies: technologiesSchema.default([]),
+    // Drafts (like the example entry) are only listed in `astro dev`
+    draft: z.boolean().default(false),
+  }).refine(
+    (data) => !data.endDate || data.endDate >= data.startDate,
+    { message: 'endDate must not be earlier than startDate', path: ['endDate'] }
+  ),
+});
+
+const skillsCollection = defineCollection({
+  type: 'data',
+  schema: z.object({
+    name: z.string().transform(normalizeTechnologyName),
+    category: z.enum(['language', 'framework', 'api', 'database', 'tool']),
+    // Self-assessment, only shown when the owner fills it in
+    proficiency: z.enum(['beginner', 'intermediate', 'advanced', 'expert']).optional(),
+    yearsOfExperience: z.number().min(0).optional(),
+  }),
+});
+
+// The markdown body is the answer, shown on the page and in the FAQPage JSON-LD
+const faqCollection = defineCollection({
+  type: 'content',
+  schema: z.object({
+    question: z.string(),
+    order: z.number().default(0),
   }),
 });
 
 export const collections = {
   projects: projectsCollection,
+  experience: experienceCollection,
+  skills: skillsCollection,
+  faq: faqCollection,
 };
\ No newline at end of file
@@ -0,0 +1,50 @@
+/**
+ * Image pipeline integration
+ * Brings the responsive variants in public/images up to date when a build or the
+ * dev server starts (see src/utils/image-pipeline.ts). Unchanged sources are
+ * skipped, so this is cheap once the variants exist. It also tells pages where
+ * the project and public directories are.
+ */
+
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import type { AstroIntegration } from 'astro';
+import { optimizeImages } from '../utils/image-pipeline';
+
+/** Manifest location relative to the project root */
+export const IMAGE_MANIFEST_PATH = 'src/data/image-manifest.json';
+
+/**
+ * Creates the integration
+ * @returns AstroIntegration - Runs the image pipeline before building or serving
+ */
+export default function imagePipeline(): AstroIntegration {
+  return {
+    name: 'portfolio:image-pipeline',
+    hooks: {
+      // Runs before content collections are synced, which reject thumbnails without variants
+      'astro:config:setup': async ({ command, config, logger, updateConfig }) => {
+        // Lets pages read source images through getProjectDirs(), wherever the build is started from
+        updateConfig({
+          vite: {
+            define: {
+              // A JSON string, like any other environment variable
+              'import.meta.env.PROJECT_DIRS': JSON.stringify(JSON.stringify({
+                root: fileURLToPath(config.root),
+                publicDir: fileURLToPath(config.publicDir),
+              })),
+            },
+          },
+        });
+
+        if (command !== 'build' && command !== 'dev') return;
+
+        const { processed, skipped, removed } = await optimizeImages({
+          publicDir: fileURLToPath(config.publicDir),
+          manifestPath: path.join(fileURLToPath(config.root), IMAGE_MANIFEST_PATH),
+        });
+        logger.info(`${processed.length} images optimized, ${skipped.length} up to date, ${removed.length} stale variants removed`);
+      },
+    },
+  };
+}
@@ -0,0 +1,70 @@
+/**
+ * PWA assets integration
+ * Rasterizes public/favicon.svg into the app icons and writes manifest.webmanifest
+ * (see src/utils/pwa.ts). The dev server renders the same files on request.
+ */
+
+import fs from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import sharp from 'sharp';
+import type { AstroIntegration } from 'astro';
+import { PWA_ICONS, MANIFEST_FILE, buildWebManifest, composeIconSvg, type PwaIcon } from '../utils/pwa';
+import { getBasePath } from '../utils/url';
+
+const renderIcon = (faviconSvg: string, icon: PwaIcon): Promise<Buffer> =>
+  sharp(Buffer.from(composeIconSvg(faviconSvg, icon))).png().toBuffer();
+
+/**
+ * Creates the integration
+ * Register it before the service worker integration so the icons and the
+ * manifest are in dist when the precache is built.
+ * @returns AstroIntegration - Generates the icons and the manifest
+ */
+export default function pwaAssets(): AstroIntegration {
+  let base = '';
+  let faviconPath = '';
+
+  return {
+    name: 'portfolio:pwa-assets',
+    hooks: {
+      'astro:config:done': ({ config }) => {
+        base = getBasePath(config.base);
+        faviconPath = path.join(fileURLToPath(config.publicDir), 'favicon.svg');
+      },
+      'astro:server:setup': ({ server }) => {
+        server.middlewares.use((req, res, next) => {
+          const file = req.url?.split('?')[0].slice(base.length + 1);
+          const icon = PWA_ICONS.find(candidate => candidate.file === file);
+
+          if (file === MANIFEST_FILE) {
+            res.setHeader('Content-Type', 'application/manifest+json');
+            res.end(JSON.stringify(buildWebManifest(base), null, 2));
+          } else if (icon) {
+            renderIcon(fs.readFileSync(faviconPath, 'utf-8'), icon)
+              .then((png) => {
+                res.setHeader('Content-Type', 'image/png');
+                res.end(png);
+              })
+              .catch(next);
+          } else {
+            next();
+          }
+        });
+      },
+      'astro:build:done': async ({ dir, logger }) => {
+        const outDir = fileURLToPath(dir);
+        const faviconSvg = fs.readFileSync(faviconPath, 'utf-8');
+
+        await Promise.all(PWA_ICONS.map(async (icon) => {
+          const outFile = path.join(outDir, icon.file);
+          fs.mkdirSync(path.dirname(outFile), { recursive: true });
+          fs.writeFileSync(outFile, await renderIcon(faviconSvg, icon));
+        }));
+        fs.writeFileSync(path.join(outDir, MANIFEST_FILE), JSON.stringify(buildWebManifest(base), null, 2));
+
+        logger.info(`${MANIFEST_FILE} and ${PWA_ICONS.length} icons written`);
+      },
+    },
+  };
+}
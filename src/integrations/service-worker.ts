@@ -0,0 +1,46 @@
+/**
+ * Service worker integration
+ * Writes sw.js into the build output once Astro is done, precaching the files
+ * that were actually emitted (see src/utils/service-worker.ts).
+ */
+
+import fs from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import type { AstroIntegration } from 'astro';
+import { buildPrecacheManifest, generateServiceWorker, type BuildFile } from '../utils/service-worker';
+import { getBasePath } from '../utils/url';
+
+const listFiles = (dir: string, root = dir): string[] =>
+  fs.readdirSync(dir, { withFileTypes: true }).flatMap(entry => {
+    const fullPath = path.join(dir, entry.name);
+    return entry.isDirectory() ? listFiles(fullPath, root) : [path.relative(root, fullPath)];
+  });
+
+/**
+ * Creates the integration
+ * @returns AstroIntegration - Generates dist/sw.js after the build
+ */
+export default function serviceWorker(): AstroIntegration {
+  let base = '';
+
+  return {
+    name: 'portfolio:service-worker',
+    hooks: {
+      'astro:config:done': ({ config }) => {
+        base = getBasePath(config.base);
+      },
+      'astro:build:done': ({ dir, logger }) => {
+        const outDir = fileURLToPath(dir);
+        const files: BuildFile[] = listFiles(outDir).map(file => ({
+          path: file.split(path.sep).join('/'),
+          content: fs.readFileSync(path.join(outDir, file)),
+        }));
+
+        const manifest = buildPrecacheManifest(files, base);
+        fs.writeFileSync(path.join(outDir, 'sw.js'), generateServiceWorker(manifest, base));
+        logger.info(`sw.js written with ${manifest.length} precached files`);
+      },
+    },
+  };
+}
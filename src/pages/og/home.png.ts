@@ -0,0 +1,26 @@
+import type { APIRoute } from 'astro';
+import { getProjects, groupProjectsByTechnology } from '../../utils/content.ts';
+import { renderOgImage } from '../../utils/og-image';
+import { getProfilePhotoPath } from '../../utils/profile-photo';
+import { siteConfig } from '../../config/site';
+
+/**
+ * Open Graph card of the home page and of pages without their own card.
+ * Shows the profile photo and the most used technologies.
+ */
+export const GET: APIRoute = async ({ site }) => {
+  const technologies = groupProjectsByTechnology(await getProjects()).map(group => group.technology.name);
+
+  const png = await renderOgImage({
+    eyebrow: siteConfig.jobTitle,
+    title: siteConfig.name,
+    description: siteConfig.description,
+    technologies,
+    thumbnail: getProfilePhotoPath(),
+    site: site?.host,
+  });
+
+  return new Response(new Uint8Array(png), {
+    headers: { 'Content-Type': 'image/png' },
+  });
+};
@@ -0,0 +1,34 @@
+import type { APIRoute } from 'astro';
+import { getProjects, type Project } from '../../../utils/content.ts';
+import { getTechnologyDisplay } from '../../../utils/technologies';
+import { renderOgImage } from '../../../utils/og-image';
+import { getPublicFilePath } from '../../../utils/image-pipeline';
+
+/**
+ * Open Graph card of a project page.
+ * Local thumbnails are embedded; external ones are left out, as the build stays offline.
+ */
+export async function getStaticPaths() {
+  const projects = await getProjects();
+
+  return projects.map((project) => ({
+    params: { slug: project.slug },
+    props: { project },
+  }));
+}
+
+export const GET: APIRoute<{ project: Project }> = async ({ props, site }) => {
+  const { title, description, technologies, thumbnail } = props.project.data;
+
+  const png = await renderOgImage({
+    title,
+    description,
+    technologies: technologies.map(tech => getTechnologyDisplay(tech).name),
+    thumbnail: thumbnail.startsWith('/') ? getPublicFilePath(thumbnail) : undefined,
+    site: site?.host,
+  });
+
+  return new Response(new Uint8Array(png), {
+    headers: { 'Content-Type': 'image/png' },
+  });
+};
@@ -0,0 +1,56 @@
+import type { APIRoute } from 'astro';
+import { getDeploymentProfile, isNoindexDeployment } from '../config/deployment';
+import { getBasePath } from '../utils/url';
+
+/**
+ * robots.txt, generated per deployment profile.
+ * Preview profiles disallow everything; the others allow crawling and
+ * point at the sitemap of the deployment they were built for.
+ */
+export const GET: APIRoute = () => {
+  const deployment = getDeploymentProfile();
+  const base = getBasePath();
+
+  if (isNoindexDeployment(deployment)) {
+    return text(`# Preview build (${deployment.name}), not for indexing
+User-agent: *
+Disallow: /
+`);
+  }
+
+  const origin = `${new URL(deployment.site).protocol}//${deployment.canonicalHost}${base}`;
+
+  return text(`# Robots.txt for ${origin}/
+
+User-agent: *
+Allow: ${base}/
+
+# Sitemap location
+Sitemap: ${origin}/sitemap-index.xml
+
+# Crawl delay (optional - helps with server load)
+Crawl-delay: 1
+
+# Block access to admin or test areas (if any)
+Disallow: ${base}/admin/
+Disallow: ${base}/test/
+Disallow: ${base}/_astro/
+Disallow: ${base}/api/
+
+# Block problematic bots (optional)
+User-agent: AhrefsBot
+Disallow: /
+
+User-agent: MJ12bot
+Disallow: /
+
+User-agent: DotBot
+Disallow: /
+`);
+};
+
+function text(body: string): Response {
+  return new Response(body, {
+    headers: { 'Content-Type': 'text/plain; charset=utf-8' },
+  });
+}
@@ -0,0 +1,15 @@
+import type { APIRoute } from 'astro';
+import { getProjects } from '../utils/content.ts';
+import { buildSearchIndex } from '../utils/search.ts';
+
+/**
+ * Static search index for the projects search box.
+ * Generated at build time and fetched by the browser on first focus.
+ */
+export const GET: APIRoute = async () => {
+  const index = buildSearchIndex(await getProjects());
+
+  return new Response(JSON.stringify(index), {
+    headers: { 'Content-Type': 'application/json' },
+  });
+};
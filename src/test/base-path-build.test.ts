@@ -0,0 +1,155 @@
+/**
+ * Base Path Build Tests
+ * Builds the site under the GitHub Pages subpath and verifies that no
+ * generated file links to the domain root instead of the deploy base, and
+ * that rebuilding unchanged content does not produce a new service worker
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { execFileSync } from 'child_process';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { createDeploymentProfile } from '../config/deployment';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+const PROJECT_ROOT = path.join(__dirname, '../..');
+
+const profile = createDeploymentProfile('github-pages', process.env);
+const BASE = profile.base;
+const SITE_ORIGIN = new URL(profile.site).origin;
+
+const TEXT_FILE = /\.(html|css|js|json|xml|txt|webmanifest)$/;
+
+// Vitest mirrors its own import.meta.env values into process.env; the build must not inherit them
+const VITEST_ENV_KEYS = ['BASE_URL', 'MODE', 'DEV', 'PROD', 'SSR', 'NODE_ENV'];
+
+const listFiles = (dir: string): string[] =>
+  fs.readdirSync(dir, { withFileTypes: true }).flatMap(entry => {
+    const fullPath = path.join(dir, entry.name);
+    return entry.isDirectory() ? listFiles(fullPath) : [fullPath];
+  });
+
+/** Root-relative path (not protocol-relative) that is missing the deploy base */
+const isOutsideBase = (url: string) =>
+  url.startsWith('/') && !url.startsWith('//') && url !== BASE && !url.startsWith(`${BASE}/`);
+
+/**
+ * Builds the site with the GitHub Pages profile
+ * Astro stages builds for an outDir outside the project in .astro/ and then deletes it,
+ * so the output stays inside the project (but away from dist/, which other suites read)
+ * @returns string - Output directory, removed by the caller
+ */
+const buildSite = (): string => {
+  const cacheDir = path.join(PROJECT_ROOT, 'node_modules/.cache');
+  fs.mkdirSync(cacheDir, { recursive: true });
+  const outDir = fs.mkdtempSync(path.join(cacheDir, 'base-path-build-'));
+  execFileSync('npx', ['astro', 'build', '--outDir', outDir], {
+    cwd: PROJECT_ROOT,
+    env: {
+      ...Object.fromEntries(Object.entries(process.env).filter(([key]) => !VITEST_ENV_KEYS.includes(key))),
+      DEPLOY_PROFILE: profile.name,
+    },
+    stdio: 'pipe',
+  });
+  return outDir;
+};
+
+describe('Base Path Build', () => {
+  let outDir: string;
+  let files: { name: string; content: string }[] = [];
+
+  beforeAll(() => {
+    outDir = buildSite();
+
+    files = listFiles(outDir)
+      .filter(file => TEXT_FILE.test(file))
+      .map(file => ({ name: path.relative(outDir, file), content: fs.readFileSync(file, 'utf-8') }));
+  }, 600_000);
+
+  afterAll(() => {
+    if (outDir) fs.rmSync(outDir, { recursive: true, force: true });
+  });
+
+  it('should build under a subpath', () => {
+    expect(BASE).not.toBe('/');
+    expect(files.some(file => file.name === 'index.html')).toBe(true);
+  });
+
+  it('should prefix every HTML link and asset attribute with the base', () => {
+    const offenders: string[] = [];
+
+    files.filter(file => file.name.endsWith('.html')).forEach(({ name, content }) => {
+      for (const [, attribute, doubleQuoted, singleQuoted, bare] of content.matchAll(/\s(href|src|srcset|action|poster)=(?:"([^"]*)"|'([^']*)'|([^\s>]+))/g)) {
+        const value = doubleQuoted ?? singleQuoted ?? bare;
+        const urls = attribute === 'srcset'
+          ? value.split(',').map(candidate => candidate.trim().split(/\s+/)[0])
+          : [value];
+        urls.filter(isOutsideBase).forEach(url => offenders.push(`${name}: ${attribute}="${url}"`));
+      }
+    });
+
+    expect(offenders).toEqual([]);
+  });
+
+  it('should prefix root-relative strings in inline scripts and generated files with the base', () => {
+    const offenders: string[] = [];
+    const quotedPath = /["'`](\/[\w-][^"'`\s]*)["'`]/g;
+
+    files.forEach(({ name, content }) => {
+      let sources: string[] = [];
+      if (name.endsWith('.html')) {
+        sources = [...content.matchAll(/<script(?![^>]*type="application\/ld\+json")[^>]*>([\s\S]*?)<\/script>/g)]
+          .map(match => match[1]);
+      } else if (/^(sw\.js|manifest\.webmanifest)$/.test(name)) {
+        sources = [content];
+      }
+
+      sources.forEach(source => {
+        for (const [, url] of source.matchAll(quotedPath)) {
+          if (isOutsideBase(url)) offenders.push(`${name}: ${url}`);
+        }
+      });
+    });
+
+    expect(offenders).toEqual([]);
+  });
+
+  it('should prefix CSS url() references with the base', () => {
+    const offenders: string[] = [];
+
+    files.filter(file => /\.(css|html)$/.test(file.name)).forEach(({ name, content }) => {
+      for (const [, url] of content.matchAll(/url\(\s*["']?([^"')\s]+)/g)) {
+        if (isOutsideBase(url)) offenders.push(`${name}: url(${url})`);
+      }
+    });
+
+    expect(offenders).toEqual([]);
+  });
+
+  it('should include the base in absolute URLs to the site', () => {
+    const offenders: string[] = [];
+    const siteUrl = new RegExp(`${SITE_ORIGIN.replace(/[.]/g, '\\.')}(/[^"'<>\\s)&]*)`, 'g');
+
+    files.forEach(({ name, content }) => {
+      for (const [, urlPath] of content.matchAll(siteUrl)) {
+        if (isOutsideBase(urlPath)) offenders.push(`${name}: ${SITE_ORIGIN}${urlPath}`);
+      }
+    });
+
+    expect(offenders).toEqual([]);
+  });
+
+  it('should write the same service worker when the content did not change', () => {
+    // A new sw.js makes returning visitors install it and see the update prompt
+    const rebuildDir = buildSite();
+    try {
+      const serviceWorker = files.find(file => file.name === 'sw.js')?.content;
+      expect(serviceWorker).toBeDefined();
+      expect(fs.readFileSync(path.join(rebuildDir, 'sw.js'), 'utf-8')).toBe(serviceWorker);
+    } finally {
+      fs.rmSync(rebuildDir, { recursive: true, force: true });
+    }
+  }, 600_000);
+});
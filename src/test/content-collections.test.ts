@@ -8,8 +8,10 @@ import { describe, it, expect } from 'vitest';
 import { readFileSync, readdirSync } from 'fs';
 import { join } from 'path';
 import matter from 'gray-matter';
+import { isMissingVariants } from '../utils/images';
 
 const PROJECTS_DIR = join(process.cwd(), 'src', 'content', 'projects');
+const FAQ_DIR = join(process.cwd(), 'src', 'content', 'faq');
 
 function getProjectFiles() {
   try {
@@ -67,6 +69,15 @@ describe('Content Collections', () => {
       });
     });
     
+    it('should have generated responsive variants for every thumbnail', () => {
+      const projectFiles = getProjectFiles();
+      
+      projectFiles.forEach(filename => {
+        const project = parseProjectFile(filename);
+        expect(isMissingVariants(project.data.thumbnail), project.data.thumbnail).toBe(false);
+      });
+    });
+    
     it('should have valid technologies arrays', () => {
       const projectFiles = getProjectFiles();
       
@@ -179,4 +190,19 @@ describe('Content Collections', () => {
       });
     });
   });
-});
\ No newline at end of file
+
+  describe('FAQ Files', () => {
+    it('should have a question and a markdown answer in every FAQ file', () => {
+      const faqFiles = readdirSync(FAQ_DIR).filter(file => file.endsWith('.md'));
+      expect(faqFiles.length).toBeGreaterThan(0);
+
+      faqFiles.forEach(filename => {
+        const { data, content } = matter(readFileSync(join(FAQ_DIR, filename), 'utf-8'));
+
+        expect(typeof data.question).toBe('string');
+        expect(data.question.trim().endsWith('?')).toBe(true);
+        expect(content.trim().length).toBeGreaterThan(0);
+      });
+    });
+  });
+});
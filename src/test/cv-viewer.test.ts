@@ -293,4 +293,57 @@ describe('CVViewer', () => {
     wrapper.vm.currentPage = 2
     expect(wrapper.vm.currentPdfUrl).toBe('/cv/document.pdf#page=2')
   })
-})
\ No newline at end of file
+
+  describe('offline', () => {
+    const OFFLINE_ERROR = 'You are offline and this CV has not been saved for offline viewing yet. Reconnect and try again.'
+
+    const goOffline = (cachedUrls: string[]) => {
+      vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(false)
+      vi.stubGlobal('caches', {
+        match: vi.fn((url: string, options?: CacheQueryOptions) => {
+          const stored = options?.ignoreSearch ? cachedUrls.map(cachedUrl => cachedUrl.split('?')[0]) : cachedUrls
+          return Promise.resolve(stored.includes(url) ? new Response('%PDF') : undefined)
+        })
+      })
+    }
+
+    afterEach(() => {
+      vi.restoreAllMocks()
+      vi.unstubAllGlobals()
+    })
+
+    it('shows a cached CV on the first open while offline', async () => {
+      // Precached by the service worker under its revision
+      goOffline(['/cv/document.pdf?__revision=1a2b3c4d5e6f'])
+      wrapper = mount(CVViewer, { props: { defaultCvPath: '/cv/document.pdf' } })
+
+      await wrapper.vm.openViewer()
+
+      expect(wrapper.vm.availableOffline).toBe(true)
+      expect(wrapper.vm.error).toBe(null)
+    })
+
+    it('explains that an uncached CV needs a connection', async () => {
+      goOffline([])
+      wrapper = mount(CVViewer, { props: { defaultCvPath: '/cv/document.pdf' } })
+
+      await wrapper.vm.openViewer()
+
+      expect(wrapper.vm.availableOffline).toBe(false)
+      expect(wrapper.vm.loading).toBe(false)
+      expect(wrapper.vm.error).toBe(OFFLINE_ERROR)
+    })
+
+    it('treats unreadable caches as not saved, without logging', async () => {
+      vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(false)
+      vi.stubGlobal('caches', { match: vi.fn().mockRejectedValue(new Error('SecurityError')) })
+      const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {})
+      wrapper = mount(CVViewer, { props: { defaultCvPath: '/cv/document.pdf' } })
+
+      await wrapper.vm.openViewer()
+
+      expect(wrapper.vm.error).toBe(OFFLINE_ERROR)
+      expect(consoleError).not.toHaveBeenCalled()
+    })
+  })
+})
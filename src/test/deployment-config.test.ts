@@ -0,0 +1,110 @@
+/**
+ * Unit tests for the deployment profiles
+ * Tests profile selection from the environment and the preview robots policy
+ */
+
+import { describe, it, expect } from 'vitest';
+import { spawnSync } from 'child_process';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import {
+  DEPLOYMENT_PROFILE_NAMES,
+  createDeploymentProfile,
+  getDeploymentTarget,
+  resolveDeploymentProfile,
+  isNoindexDeployment,
+  type DeploymentProfile,
+  type DeploymentProfileName
+} from '../config/deployment';
+import { siteConfig } from '../config/site';
+
+const PROJECT_ROOT = path.join(path.dirname(fileURLToPath(import.meta.url)), '../..');
+
+const ENV = {
+  SITE_URL: 'https://example.com',
+  URL: 'https://portfolio.netlify.app',
+  DEPLOY_PRIME_URL: 'https://deploy-preview-12--portfolio.netlify.app'
+};
+
+const DEPLOYMENT_PROFILES = Object.fromEntries(
+  DEPLOYMENT_PROFILE_NAMES.map(name => [name, createDeploymentProfile(name, ENV)])
+) as Record<DeploymentProfileName, DeploymentProfile>;
+
+describe('Deployment Profiles', () => {
+  it('should select the profile named by DEPLOY_PROFILE', () => {
+    expect(resolveDeploymentProfile({ ...ENV, DEPLOY_PROFILE: 'netlify' }).name).toBe('netlify');
+    expect(resolveDeploymentProfile({ DEPLOY_PROFILE: ' local-preview ', GITHUB_ACTIONS: 'true' }).name)
+      .toBe('local-preview');
+  });
+
+  it('should fall back to github-pages on GitHub Actions and vps elsewhere', () => {
+    expect(resolveDeploymentProfile({ GITHUB_ACTIONS: 'true' }).name).toBe('github-pages');
+    expect(resolveDeploymentProfile({ SITE_URL: ENV.SITE_URL }).name).toBe('vps');
+    expect(resolveDeploymentProfile({ SITE_URL: ENV.SITE_URL, DEPLOY_PROFILE: '' }).name).toBe('vps');
+  });
+
+  it('should require an address for every profile but github-pages and local-preview', () => {
+    expect(() => resolveDeploymentProfile({})).toThrow(/vps deployment profile needs SITE_URL/);
+    expect(() => resolveDeploymentProfile({ SITE_URL: ' ' })).toThrow(/SITE_URL/);
+    expect(() => createDeploymentProfile('netlify')).toThrow(/netlify deployment profile needs SITE_URL or URL/);
+    expect(() => createDeploymentProfile('netlify-preview')).toThrow(/DEPLOY_PRIME_URL or URL/);
+    expect(createDeploymentProfile('github-pages').site).toBe(new URL(siteConfig.url).origin);
+    expect(createDeploymentProfile('local-preview').site).toBe('http://localhost:4321');
+  });
+
+  it('should reject unknown profile names', () => {
+    expect(() => resolveDeploymentProfile({ DEPLOY_PROFILE: 'staging' }))
+      .toThrow(/Unknown DEPLOY_PROFILE "staging".*github-pages, vps, netlify, netlify-preview, local-preview/);
+  });
+
+  it('should serve GitHub Pages from the repository subpath of the site URL', () => {
+    const profile = createDeploymentProfile('github-pages');
+    const { origin, host, pathname } = new URL(siteConfig.url);
+    expect(profile.site).toBe(origin);
+    expect(profile.base).toBe(pathname);
+    expect(profile.canonicalHost).toBe(host);
+  });
+
+  it('should serve the VPS from SITE_URL', () => {
+    const env = { SITE_URL: 'https://example.com/portfolio/' };
+    expect(createDeploymentProfile('vps', env)).toMatchObject({ site: 'https://example.com', base: '/portfolio', canonicalHost: 'example.com' });
+    expect(createDeploymentProfile('github-pages', env)).toMatchObject({ site: 'https://example.com', base: '/portfolio' });
+  });
+
+  it('should serve Netlify from its URL unless SITE_URL is set', () => {
+    expect(createDeploymentProfile('netlify', { URL: ENV.URL }))
+      .toMatchObject({ site: 'https://portfolio.netlify.app', base: '/', canonicalHost: 'portfolio.netlify.app' });
+    expect(DEPLOYMENT_PROFILES.netlify.site).toBe('https://example.com');
+  });
+
+  it('should build Netlify previews for their own address', () => {
+    const preview = resolveDeploymentProfile({ ...ENV, DEPLOY_PROFILE: 'netlify-preview' });
+    expect(preview).toMatchObject({
+      site: 'https://deploy-preview-12--portfolio.netlify.app',
+      base: '/',
+      canonicalHost: 'deploy-preview-12--portfolio.netlify.app'
+    });
+    expect(isNoindexDeployment(preview)).toBe(true);
+  });
+
+  it('should split a URL into site, base and host', () => {
+    expect(getDeploymentTarget('http://localhost:4321')).toEqual({ site: 'http://localhost:4321', base: '/', canonicalHost: 'localhost:4321' });
+    expect(getDeploymentTarget('https://user.github.io/repo/')).toEqual({ site: 'https://user.github.io', base: '/repo', canonicalHost: 'user.github.io' });
+  });
+
+  it('should only keep preview profiles out of search engines', () => {
+    expect(isNoindexDeployment(DEPLOYMENT_PROFILES['local-preview'])).toBe(true);
+    expect(isNoindexDeployment(DEPLOYMENT_PROFILES['netlify-preview'])).toBe(true);
+    expect(isNoindexDeployment(DEPLOYMENT_PROFILES['github-pages'])).toBe(false);
+    expect(isNoindexDeployment(DEPLOYMENT_PROFILES.vps)).toBe(false);
+    expect(isNoindexDeployment(DEPLOYMENT_PROFILES.netlify)).toBe(false);
+  });
+
+  it('should reject a build without SITE_URL', () => {
+    const { SITE_URL: _siteUrl, DEPLOY_PROFILE: _profile, GITHUB_ACTIONS: _actions, ...env } = process.env;
+    const build = spawnSync('npx', ['astro', 'build'], { cwd: PROJECT_ROOT, env, encoding: 'utf-8' });
+
+    expect(build.status).not.toBe(0);
+    expect(`${build.stdout}${build.stderr}`).toMatch(/vps deployment profile needs SITE_URL/);
+  }, 120_000);
+});
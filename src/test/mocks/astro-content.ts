@@ -61,18 +61,130 @@ const mockProjects = [
   }
 ];
 
-// Mock getCollection function
-export const getCollection = vi.fn().mockImplementation((collectionName: string) => {
-  if (collectionName === 'projects') {
-    return Promise.resolve(mockProjects);
+// Mock experience data for testing
+const mockExperience = [
+  {
+    slug: 'previous-job',
+    data: {
+      company: 'Previous Company',
+      role: 'Frontend Developer',
+      location: 'Remote',
+      startDate: new Date('2021-01-01'),
+      endDate: new Date('2022-06-01'),
+      technologies: ['Vue.js', 'JavaScript']
+    },
+    body: 'Worked on the customer dashboard.'
+  },
+  {
+    slug: 'current-job',
+    data: {
+      company: 'Current Company',
+      role: 'Full Stack Developer',
+      location: 'Remote',
+      startDate: new Date('2022-07-01'),
+      technologies: ['TypeScript', 'Node.js']
+    },
+    body: 'Building the core platform.'
+  },
+  {
+    slug: 'first-job',
+    data: {
+      company: 'First Company',
+      role: 'Junior Developer',
+      location: 'On-site',
+      startDate: new Date('2019-03-01'),
+      endDate: new Date('2020-12-01'),
+      technologies: ['PHP']
+    },
+    body: 'Maintained internal tools.'
+  },
+  {
+    slug: 'example',
+    data: {
+      company: 'Example Company',
+      role: 'Example Role',
+      location: 'Remote',
+      startDate: new Date('2024-01-01'),
+      technologies: ['TypeScript'],
+      draft: true
+    },
+    body: 'Placeholder entry.'
+  }
+];
+
+// Mock skills data for testing (intentionally incomplete: no PostgreSQL, D3.js, etc.)
+const mockSkills = [
+  {
+    id: 'react',
+    data: {
+      name: 'React',
+      category: 'framework',
+      proficiency: 'advanced',
+      yearsOfExperience: 4
+    }
+  },
+  {
+    id: 'vue',
+    data: {
+      name: 'Vue.js',
+      category: 'framework',
+      proficiency: 'expert',
+      yearsOfExperience: 6
+    }
+  },
+  {
+    id: 'typescript',
+    data: {
+      name: 'TypeScript',
+      category: 'language',
+      proficiency: 'advanced',
+      yearsOfExperience: 5
+    }
+  }
+];
+
+// Mock FAQ data for testing (out of order on purpose)
+const mockFaqs = [
+  {
+    slug: 'contact',
+    data: {
+      question: 'How can I contact you?',
+      order: 2
+    },
+    rendered: { html: '<p>Send an <a href="mailto:jane@example.com">email</a>.</p>\n' }
+  },
+  {
+    slug: 'stack',
+    data: {
+      question: 'What do you build with?',
+      order: 1
+    },
+    rendered: { html: '<p>Mostly <strong>Vue.js</strong>.</p>' }
   }
-  return Promise.resolve([]);
+];
+
+// Mock getCollection function
+export const getCollection = vi.fn().mockImplementation((collectionName: string, filter?: (entry: any) => boolean) => {
+  const collections: Record<string, any[]> = {
+    projects: mockProjects,
+    experience: mockExperience,
+    skills: mockSkills,
+    faq: mockFaqs
+  };
+  const entries = collections[collectionName] ?? [];
+  return Promise.resolve(filter ? entries.filter(entry => filter(entry)) : entries);
 });
 
 // Mock CollectionEntry type
 export type CollectionEntry<T extends string> = T extends 'projects' 
   ? typeof mockProjects[0]
-  : never;
+  : T extends 'experience'
+    ? typeof mockExperience[number]
+    : T extends 'skills'
+      ? typeof mockSkills[number]
+      : T extends 'faq'
+        ? typeof mockFaqs[number]
+        : never;
 
 // Export mock data for use in tests
-export { mockProjects };
\ No newline at end of file
+export { mockProjects, mockExperience, mockSkills, mockFaqs };
\ No newline at end of file
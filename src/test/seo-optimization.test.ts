@@ -7,6 +7,7 @@ import {
   generateMetaDescription,
   sanitizeSEOData
 } from '../utils/seo';
+import { siteConfig } from '../config/site';
 
 describe('SEO Optimization', () => {
   let projects: any[];
@@ -41,8 +42,7 @@ describe('SEO Optimization', () => {
       expect(structuredData.name).toBe('Test Project');
       expect(structuredData.description).toBe('A test project for SEO validation');
       expect(structuredData.programmingLanguage).toEqual(['React', 'TypeScript', 'Node.js']);
-      expect(structuredData.author['@type']).toBe('Person');
-      expect(structuredData.author.name).toBe('John Developer');
+      expect(structuredData.author['@id']).toBe(`${siteConfig.url}/#person`);
     });
 
     it('should handle missing optional fields gracefully', () => {
@@ -82,7 +82,7 @@ describe('SEO Optimization', () => {
 
   describe('FAQ Structured Data', () => {
     it('should generate valid FAQ structured data', () => {
-      const faqData = generateFAQStructuredData();
+      const faqData = generateFAQStructuredData([{ slug: 'cv', question: 'How can I view your CV?', answerHtml: '<p>Use the View CV button.</p>' }]);
       
       expect(faqData['@context']).toBe('https://schema.org');
       expect(faqData['@type']).toBe('FAQPage');
@@ -184,15 +184,16 @@ describe('SEO Optimization', () => {
       expect(sanitized.description).toContain('Modern portfolio');
       expect(sanitized.keywords).toContain('developer');
       expect(sanitized.type).toBe('website');
-      expect(sanitized.author).toBe('John Developer');
+      expect(sanitized.author).toBe(siteConfig.name);
       expect(sanitized.noindex).toBe(false);
       expect(sanitized.nofollow).toBe(false);
     });
   });
 
   describe('URL and Image Handling', () => {
-    it('should handle absolute and relative URLs correctly', () => {
+    it('should point at the generated Open Graph card for local thumbnails', () => {
       const projectWithRelativeImage = {
+        slug: 'relative-image',
         data: {
           ...projects[0].data,
           thumbnail: '/images/relative-image.jpg'
@@ -200,11 +201,12 @@ describe('SEO Optimization', () => {
       };
 
       const structuredData = generateProjectStructuredData(projectWithRelativeImage);
-      expect(structuredData.image).toBe('https://johndeveloper.dev/images/relative-image.jpg');
+      expect(structuredData.image).toBe(`${siteConfig.url}/og/projects/relative-image.png`);
     });
 
-    it('should preserve absolute URLs', () => {
+    it('should point at the generated Open Graph card for external thumbnails', () => {
       const projectWithAbsoluteImage = {
+        slug: 'absolute-image',
         data: {
           ...projects[0].data,
           thumbnail: 'https://external.com/image.jpg'
@@ -212,7 +214,7 @@ describe('SEO Optimization', () => {
       };
 
       const structuredData = generateProjectStructuredData(projectWithAbsoluteImage);
-      expect(structuredData.image).toBe('https://external.com/image.jpg');
+      expect(structuredData.image).toBe(`${siteConfig.url}/og/projects/absolute-image.png`);
     });
   });
 
@@ -272,7 +274,7 @@ describe('SEO Integration Tests', () => {
     // Generate all SEO components
     const keywords = generateKeywords(mockProjects, ['developer', 'portfolio']);
     const portfolioData = generatePortfolioStructuredData(mockProjects);
-    const faqData = generateFAQStructuredData();
+    const faqData = generateFAQStructuredData([{ slug: 'cv', question: 'How can I view your CV?', answerHtml: '<p>Use the View CV button.</p>' }]);
     
     const seoData = sanitizeSEOData({
       title: 'John Developer - Full Stack Portfolio',
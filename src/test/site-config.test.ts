@@ -0,0 +1,33 @@
+/**
+ * Unit tests for the central site configuration
+ * Tests that identity data is valid and consumed by the SEO helpers
+ */
+
+import { describe, it, expect } from 'vitest';
+import { siteConfig, getSocialProfileUrls } from '../config/site';
+import { sanitizeSEOData, generateBreadcrumbStructuredData } from '../utils/seo';
+
+describe('Site Configuration', () => {
+  it('should not contain placeholder identity data', () => {
+    const serialized = JSON.stringify(siteConfig);
+    expect(serialized).not.toMatch(/John Developer|johndeveloper/i);
+  });
+
+  it('should expose theme colors as hex values', () => {
+    expect(siteConfig.theme.themeColor).toMatch(/^#[0-9a-f]{6}$/i);
+    expect(siteConfig.theme.backgroundColor).toMatch(/^#[0-9a-f]{6}$/i);
+  });
+
+  it('should list social profiles as absolute URLs', () => {
+    const urls = getSocialProfileUrls();
+    expect(urls).toContain(siteConfig.socials.github);
+    expect(urls).toContain(siteConfig.socials.linkedin);
+    urls.forEach(url => expect(url).toMatch(/^https:\/\//));
+  });
+
+  it('should be the default identity of the SEO helpers', () => {
+    expect(sanitizeSEOData({}).author).toBe(siteConfig.name);
+    expect(generateBreadcrumbStructuredData([{ name: 'Home', url: '/' }]).itemListElement[0].item)
+      .toBe(`${siteConfig.url}/`);
+  });
+});
@@ -10,8 +10,22 @@ import {
   logProjectStats,
   getProjects,
   getFeaturedProjects,
-  getProjectBySlug
+  getProjectBySlug,
+  getExperience,
+  getCurrentExperience,
+  isCurrentExperience,
+  isVisibleExperience,
+  getSkillsWithProjects,
+  matchSkillsToProjects,
+  skillMatchesTechnology,
+  groupProjectsByTechnology,
+  isPublished,
+  isVisibleProject,
+  getRelatedProjects,
+  getLatestProjectDate,
+  getFaqItems
 } from '../utils/content';
+import { mockProjects, mockExperience, mockSkills } from './mocks/astro-content';
 
 // Mock console methods
 const mockConsoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
@@ -287,6 +301,35 @@ describe('Content Utility Functions', () => {
     });
   });
 
+  describe('isPublished', () => {
+    const now = new Date('2024-06-01');
+
+    it('should accept past, non-draft projects', () => {
+      const project = { ...mockProjects[0], data: { ...mockProjects[0].data, publishDate: new Date('2024-01-01') } };
+      expect(isPublished(project as any, now)).toBe(true);
+    });
+
+    it('should reject drafts and scheduled projects', () => {
+      const draft = { ...mockProjects[0], data: { ...mockProjects[0].data, draft: true } };
+      const scheduled = { ...mockProjects[0], data: { ...mockProjects[0].data, publishDate: new Date('2024-07-01') } };
+      expect(isPublished(draft as any, now)).toBe(false);
+      expect(isPublished(scheduled as any, now)).toBe(false);
+    });
+  });
+
+  describe('isVisibleProject', () => {
+    const draft = { ...mockProjects[0], data: { ...mockProjects[0].data, draft: true } };
+
+    it('should hide unpublished projects from production builds', () => {
+      expect(isVisibleProject(draft as any, false)).toBe(false);
+      expect(isVisibleProject(mockProjects[0] as any, false)).toBe(true);
+    });
+
+    it('should list unpublished projects in dev', () => {
+      expect(isVisibleProject(draft as any, true)).toBe(true);
+    });
+  });
+
   describe('getFeaturedProjects', () => {
     it('should return only featured projects', async () => {
       const featuredProjects = await getFeaturedProjects();
@@ -335,6 +378,235 @@ describe('Content Utility Functions', () => {
     });
   });
 
+  describe('isVisibleExperience', () => {
+    const example = mockExperience.find(entry => entry.data.draft)!;
+
+    it('should hide drafts from production builds', () => {
+      expect(isVisibleExperience(example as any, false)).toBe(false);
+      expect(isVisibleExperience(mockExperience[0] as any, false)).toBe(true);
+    });
+
+    it('should list drafts in dev', () => {
+      expect(isVisibleExperience(example as any, true)).toBe(true);
+    });
+  });
+
+  describe('getExperience', () => {
+    // Production build: the draft example entry is left out
+    beforeEach(() => {
+      vi.stubEnv('DEV', false);
+    });
+
+    afterEach(() => {
+      vi.unstubAllEnvs();
+    });
+
+    it('should return current positions first, then newest to oldest', async () => {
+      const experience = await getExperience();
+
+      expect(experience.map(entry => entry.slug)).toEqual([
+        'current-job',
+        'previous-job',
+        'first-job'
+      ]);
+    });
+
+    it('should handle errors gracefully', async () => {
+      const { getCollection } = await import('astro:content');
+      vi.mocked(getCollection).mockRejectedValueOnce(new Error('Collection error'));
+
+      const experience = await getExperience();
+
+      expect(experience).toEqual([]);
+      expect(mockConsoleError).toHaveBeenCalledWith('Error loading experience:', expect.any(Error));
+    });
+  });
+
+  describe('getFaqItems', () => {
+    it('should return the questions in order with their rendered answers', async () => {
+      const items = await getFaqItems();
+
+      expect(items).toEqual([
+        { slug: 'stack', question: 'What do you build with?', answerHtml: '<p>Mostly <strong>Vue.js</strong>.</p>' },
+        { slug: 'contact', question: 'How can I contact you?', answerHtml: '<p>Send an <a href="mailto:jane@example.com">email</a>.</p>' }
+      ]);
+    });
+
+    it('should handle errors gracefully', async () => {
+      const { getCollection } = await import('astro:content');
+      vi.mocked(getCollection).mockRejectedValueOnce(new Error('Collection error'));
+
+      const items = await getFaqItems();
+
+      expect(items).toEqual([]);
+      expect(mockConsoleError).toHaveBeenCalledWith('Error loading FAQ:', expect.any(Error));
+    });
+  });
+
+  describe('getCurrentExperience', () => {
+    beforeEach(() => {
+      vi.stubEnv('DEV', false);
+    });
+
+    afterEach(() => {
+      vi.unstubAllEnvs();
+    });
+
+    it('should return only entries without an end date', async () => {
+      const current = await getCurrentExperience();
+
+      expect(current).toHaveLength(1);
+      current.forEach(entry => {
+        expect(isCurrentExperience(entry)).toBe(true);
+        expect(entry.data.endDate).toBeUndefined();
+      });
+    });
+  });
+
+  describe('skillMatchesTechnology', () => {
+    it('should match any registry spelling of the skill', () => {
+      const vue = mockSkills[1] as any;
+
+      expect(skillMatchesTechnology(vue, 'Vue.js')).toBe(true);
+      expect(skillMatchesTechnology(vue, 'vuejs')).toBe(true);
+      expect(skillMatchesTechnology(vue, 'React')).toBe(false);
+    });
+  });
+
+  describe('matchSkillsToProjects', () => {
+    it('should list the projects that use each skill', () => {
+      const { skills } = matchSkillsToProjects(mockSkills as any, mockProjects as any);
+      const react = skills.find(item => item.skill.data.name === 'React');
+
+      expect(react?.projects.map(project => project.slug)).toEqual([
+        'ecommerce-platform',
+        'analytics-dashboard'
+      ]);
+    });
+
+    it('should sort skills by proficiency, then years of experience', () => {
+      const { skills } = matchSkillsToProjects(mockSkills as any, mockProjects as any);
+
+      expect(skills.map(item => item.skill.data.name)).toEqual(['Vue.js', 'TypeScript', 'React']);
+    });
+
+    it('should list skills without a self-assessment last, by name', () => {
+      const unrated = [
+        { id: 'node', data: { name: 'Node.js', category: 'tool' } },
+        { id: 'astro', data: { name: 'Astro', category: 'framework' } }
+      ];
+      const { skills } = matchSkillsToProjects([...unrated, ...mockSkills] as any, []);
+
+      expect(skills.map(item => item.skill.data.name)).toEqual(['Vue.js', 'TypeScript', 'React', 'Astro', 'Node.js']);
+    });
+
+    it('should report technologies that are not known skills', () => {
+      const { unknownTechnologies } = matchSkillsToProjects(mockSkills as any, mockProjects as any);
+      const unknown = unknownTechnologies.map(({ technology }) => technology);
+
+      expect(unknown).toContain('PostgreSQL');
+      expect(unknown).not.toContain('React');
+    });
+  });
+
+  describe('getSkillsWithProjects', () => {
+    it('should throw when a project uses an unknown technology', async () => {
+      await expect(getSkillsWithProjects()).rejects.toThrow(/Unknown project technologies.*"PostgreSQL" \(ecommerce-platform\)/);
+    });
+  });
+
+  describe('groupProjectsByTechnology', () => {
+    it('should create one group per distinct technology, most used first', () => {
+      const groups = groupProjectsByTechnology(mockProjects as any);
+      const names = groups.map(group => group.technology.name);
+
+      expect(new Set(names).size).toBe(names.length);
+      expect(groups[0].technology.name).toBe('React');
+      expect(groups[0].projects.map(project => project.slug)).toEqual([
+        'ecommerce-platform',
+        'analytics-dashboard'
+      ]);
+    });
+
+    it('should track the publish date range of each group', () => {
+      const react = groupProjectsByTechnology(mockProjects as any)
+        .find(group => group.technology.id === 'react');
+
+      expect(react?.firstPublished).toEqual(new Date('2024-01-15'));
+      expect(react?.lastPublished).toEqual(new Date('2024-03-01'));
+    });
+
+    it('should merge different spellings of the same technology', () => {
+      const projects = [
+        { ...mockProjects[0], slug: 'a', data: { ...mockProjects[0].data, technologies: ['Vue.js'] } },
+        { ...mockProjects[1], slug: 'b', data: { ...mockProjects[1].data, technologies: ['Vuejs'] } }
+      ];
+      const groups = groupProjectsByTechnology(projects as any);
+
+      expect(groups).toHaveLength(1);
+      expect(groups[0].technology.id).toBe('vue');
+      expect(groups[0].projects).toHaveLength(2);
+    });
+  });
+
+  describe('getLatestProjectDate', () => {
+    it('should return the newest updatedDate or publishDate', () => {
+      expect(getLatestProjectDate(mockProjects as any)).toEqual(new Date('2024-03-01'));
+
+      const updated = { ...mockProjects[0], data: { ...mockProjects[0].data, updatedDate: new Date('2024-06-01') } };
+      expect(getLatestProjectDate([updated, ...mockProjects] as any)).toEqual(new Date('2024-06-01'));
+    });
+
+    it('should be undefined without projects', () => {
+      expect(getLatestProjectDate([])).toBeUndefined();
+    });
+  });
+
+  describe('getRelatedProjects', () => {
+    const makeProject = (slug: string, technologies: string[], publishDate: string) => ({
+      ...mockProjects[0],
+      slug,
+      data: { ...mockProjects[0].data, title: slug, technologies, publishDate: new Date(publishDate) }
+    });
+
+    const projects = [
+      makeProject('target', ['TypeScript', 'AniList API', 'Astro'], '2024-01-01'),
+      makeProject('common', ['TypeScript'], '2024-01-01'),
+      makeProject('niche', ['AniList API'], '2024-01-01'),
+      makeProject('old-niche', ['AniList API'], '2018-01-01'),
+      makeProject('unrelated', ['Flutter'], '2024-01-01'),
+      makeProject('ts-two', ['TS', 'Flutter'], '2023-06-01'),
+      makeProject('ts-three', ['TypeScript'], '2015-01-01')
+    ];
+
+    it('should weight rare shared technologies above common ones', () => {
+      const related = getRelatedProjects(projects[0] as any, projects as any, 10);
+      const slugs = related.map(item => item.project.slug);
+
+      expect(slugs.indexOf('niche')).toBeLessThan(slugs.indexOf('common'));
+      expect(slugs).not.toContain('target');
+      expect(slugs).not.toContain('unrelated');
+    });
+
+    it('should prefer projects published closer in time', () => {
+      const slugs = getRelatedProjects(projects[0] as any, projects as any, 10).map(item => item.project.slug);
+      expect(slugs.indexOf('niche')).toBeLessThan(slugs.indexOf('old-niche'));
+    });
+
+    it('should report shared technologies by canonical name and the date distance', () => {
+      const twin = getRelatedProjects(projects[0] as any, projects as any, 10)
+        .find(item => item.project.slug === 'ts-two');
+
+      expect(twin?.sharedTechnologies).toEqual(['TypeScript']);
+      expect(twin?.monthsApart).toBe(7);
+    });
+
+    it('should return at most the requested number of projects', () => {
+      expect(getRelatedProjects(projects[0] as any, projects as any)).toHaveLength(3);
+      expect(getRelatedProjects(projects[0] as any, projects as any, 1)).toHaveLength(1);
+    });
+  });
+
   describe('logProjectStats', () => {
     it('should log project statistics in development mode', async () => {
       await logProjectStats();
@@ -0,0 +1,138 @@
+/**
+ * Unit tests for the responsive image pipeline
+ * Tests variant planning, placeholders, manifest contents and incremental runs
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import sharp from 'sharp';
+import {
+  getVariantWidths,
+  getVariantSrc,
+  hashSource,
+  createPlaceholder,
+  getProjectDirs,
+  getPublicFilePath,
+  optimizeImages,
+  readImageManifest,
+  type ImageSettings
+} from '../utils/image-pipeline';
+
+const settings: ImageSettings = {
+  breakpoints: [40, 80, 160],
+  avif: { quality: 50, effort: 0 },
+  webp: { quality: 50, effort: 0 }
+};
+
+const writePng = (filePath: string, width: number, height: number, color = '#336699') =>
+  sharp({ create: { width, height, channels: 3, background: color } }).png().toFile(filePath);
+
+describe('Image Pipeline', () => {
+  describe('getVariantWidths', () => {
+    it('should never upscale', () => {
+      expect(getVariantWidths(100, [40, 80, 160])).toEqual([40, 80]);
+      expect(getVariantWidths(30, [40, 80, 160])).toEqual([30]);
+    });
+  });
+
+  describe('getVariantSrc', () => {
+    it('should append the width and swap the extension', () => {
+      expect(getVariantSrc('/images/projects/animet.png', 640, 'avif')).toBe('/images/projects/animet-640w.avif');
+    });
+  });
+
+  describe('hashSource', () => {
+    it('should change with the settings as well as the contents', () => {
+      const content = new Uint8Array([1, 2, 3]);
+      expect(hashSource(content, settings)).toBe(hashSource(content, settings));
+      expect(hashSource(content, { ...settings, breakpoints: [40] })).not.toBe(hashSource(content, settings));
+    });
+  });
+
+  describe('createPlaceholder', () => {
+    it('should extract the dominant color and a tiny inline preview', async () => {
+      const image = await sharp({ create: { width: 200, height: 100, channels: 3, background: '#336699' } }).png().toBuffer();
+      const placeholder = await createPlaceholder(image);
+      const preview = Buffer.from(placeholder.src.replace('data:image/webp;base64,', ''), 'base64');
+
+      expect(placeholder.color).toMatch(/^#3[0-9a-f]6[0-9a-f]9[0-9a-f]$/);
+      expect(await sharp(preview).metadata()).toMatchObject({ format: 'webp', width: 16, height: 8 });
+    });
+  });
+
+  describe('getProjectDirs', () => {
+    afterEach(() => {
+      vi.unstubAllEnvs();
+    });
+
+    it('should use the directories the integration passes to pages', () => {
+      vi.stubEnv('PROJECT_DIRS', JSON.stringify({ root: '/site', publicDir: '/site/static' }));
+
+      expect(getProjectDirs()).toEqual({ root: '/site', publicDir: '/site/static' });
+      expect(getPublicFilePath('/images/projects/animet.png')).toBe(path.join('/site/static', 'images', 'projects', 'animet.png'));
+    });
+
+    it('should fall back to the working directory outside an Astro build', () => {
+      expect(getProjectDirs()).toEqual({ root: process.cwd(), publicDir: path.join(process.cwd(), 'public') });
+    });
+  });
+
+  describe('optimizeImages', () => {
+    let publicDir: string;
+    let manifestPath: string;
+    let sourcePath: string;
+
+    beforeEach(async () => {
+      publicDir = fs.mkdtempSync(path.join(os.tmpdir(), 'image-pipeline-'));
+      manifestPath = path.join(publicDir, 'manifest.json');
+      fs.mkdirSync(path.join(publicDir, 'images', 'projects'), { recursive: true });
+      sourcePath = path.join(publicDir, 'images', 'projects', 'demo.png');
+      await writePng(sourcePath, 100, 50);
+      fs.writeFileSync(path.join(publicDir, 'images', 'logo.svg'), '<svg/>');
+    });
+
+    afterEach(() => {
+      fs.rmSync(publicDir, { recursive: true, force: true });
+    });
+
+    it('should write the variants that exist, with their real dimensions', async () => {
+      const { manifest, processed } = await optimizeImages({ publicDir, manifestPath, settings });
+      const entry = manifest['/images/projects/demo.png'];
+
+      expect(processed).toEqual(['/images/projects/demo.png']);
+      expect(entry).toMatchObject({ width: 100, height: 50 });
+      expect(entry.placeholder.src).toMatch(/^data:image\/webp;base64,/);
+      expect(entry.variants.map(variant => `${variant.format} ${variant.width}x${variant.height}`)).toEqual([
+        'avif 40x20', 'webp 40x20', 'avif 80x40', 'webp 80x40'
+      ]);
+      entry.variants.forEach(variant => {
+        expect(fs.statSync(path.join(publicDir, variant.src)).size).toBe(variant.bytes);
+      });
+      expect(readImageManifest(manifestPath)).toEqual(manifest);
+    });
+
+    it('should skip unchanged sources on the next run', async () => {
+      await optimizeImages({ publicDir, manifestPath, settings });
+      const written = fs.statSync(manifestPath).mtimeMs;
+
+      const { processed, skipped } = await optimizeImages({ publicDir, manifestPath, settings });
+
+      expect(processed).toEqual([]);
+      expect(skipped).toEqual(['/images/projects/demo.png']);
+      expect(fs.statSync(manifestPath).mtimeMs).toBe(written);
+    });
+
+    it('should regenerate changed sources and remove variants that no longer apply', async () => {
+      await optimizeImages({ publicDir, manifestPath, settings });
+      await writePng(sourcePath, 60, 30, '#993366');
+
+      const { processed, removed } = await optimizeImages({ publicDir, manifestPath, settings });
+
+      expect(processed).toEqual(['/images/projects/demo.png']);
+      expect(removed).toEqual(['/images/projects/demo-80w.avif', '/images/projects/demo-80w.webp']);
+      expect(fs.existsSync(path.join(publicDir, 'images/projects/demo-80w.avif'))).toBe(false);
+    });
+  });
+});
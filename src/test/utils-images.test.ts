@@ -0,0 +1,62 @@
+/**
+ * Unit tests for responsive image sources
+ * Tests srcsets built from the variant manifest, placeholders and missing-variant detection
+ */
+
+import { describe, it, expect } from 'vitest';
+import { resolveImage, isMissingVariants, getPlaceholderStyle } from '../utils/images';
+import type { ImageManifest } from '../utils/image-pipeline';
+
+const manifest: ImageManifest = {
+  '/images/projects/demo.png': {
+    hash: 'abc',
+    width: 800,
+    height: 400,
+    variants: [
+      { format: 'avif', width: 320, height: 160, src: '/images/projects/demo-320w.avif', bytes: 1 },
+      { format: 'webp', width: 320, height: 160, src: '/images/projects/demo-320w.webp', bytes: 1 },
+      { format: 'avif', width: 640, height: 320, src: '/images/projects/demo-640w.avif', bytes: 1 },
+      { format: 'webp', width: 640, height: 320, src: '/images/projects/demo-640w.webp', bytes: 1 }
+    ],
+    placeholder: { color: '#336699', src: 'data:image/webp;base64,AAAA' }
+  }
+};
+
+describe('Responsive Image Sources', () => {
+  describe('resolveImage', () => {
+    it('should list only generated variants, one source per format', () => {
+      expect(resolveImage('/images/projects/demo.png', manifest)).toEqual({
+        src: '/images/projects/demo.png',
+        width: 800,
+        height: 400,
+        placeholder: { color: '#336699', src: 'data:image/webp;base64,AAAA' },
+        sources: [
+          { type: 'image/avif', srcset: '/images/projects/demo-320w.avif 320w, /images/projects/demo-640w.avif 640w' },
+          { type: 'image/webp', srcset: '/images/projects/demo-320w.webp 320w, /images/projects/demo-640w.webp 640w' }
+        ]
+      });
+    });
+
+    it('should use images without variants as they are', () => {
+      expect(resolveImage('/images/projects/logo.svg', manifest)).toEqual({ src: '/images/projects/logo.svg', sources: [] });
+      expect(resolveImage('https://example.com/shot.png', manifest)).toEqual({ src: 'https://example.com/shot.png', sources: [] });
+    });
+  });
+
+  describe('getPlaceholderStyle', () => {
+    it('should expose the placeholder as custom properties', () => {
+      expect(getPlaceholderStyle({ color: '#336699', src: 'data:image/webp;base64,AAAA' }))
+        .toBe('--lqip-color: #336699; --lqip-image: url("data:image/webp;base64,AAAA")');
+      expect(getPlaceholderStyle(undefined)).toBeUndefined();
+    });
+  });
+
+  describe('isMissingVariants', () => {
+    it('should only flag local raster images the pipeline has not processed', () => {
+      expect(isMissingVariants('/images/projects/demo.png', manifest)).toBe(false);
+      expect(isMissingVariants('/images/projects/new.jpg', manifest)).toBe(true);
+      expect(isMissingVariants('/images/projects/logo.svg', manifest)).toBe(false);
+      expect(isMissingVariants('https://example.com/shot.png', manifest)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,23 @@
+/**
+ * Unit tests for the offline helpers
+ * Tests connection watching
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { watchConnection } from '../utils/offline';
+
+describe('Offline Utilities', () => {
+  describe('watchConnection', () => {
+    it('should report the current state and later changes until stopped', () => {
+      const callback = vi.fn();
+      const stop = watchConnection(callback);
+
+      window.dispatchEvent(new Event('offline'));
+      window.dispatchEvent(new Event('online'));
+      stop();
+      window.dispatchEvent(new Event('offline'));
+
+      expect(callback.mock.calls).toEqual([[navigator.onLine], [false], [true]]);
+    });
+  });
+});
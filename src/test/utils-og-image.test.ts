@@ -0,0 +1,92 @@
+/**
+ * Unit tests for the Open Graph cards
+ * Tests card paths, text wrapping, composition and rendering
+ */
+
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { describe, it, expect } from 'vitest';
+import sharp from 'sharp';
+import {
+  OG_IMAGE_WIDTH,
+  OG_IMAGE_HEIGHT,
+  getOgImagePath,
+  wrapText,
+  composeOgImageSvg,
+  renderOgImage,
+} from '../utils/og-image';
+import { siteConfig } from '../config/site';
+
+const card = {
+  title: 'Tablist & <Friends>',
+  description: 'Keeps browser tabs organized.',
+  technologies: ['Vue.js', 'TypeScript'],
+};
+
+describe('Open Graph Images', () => {
+  describe('getOgImagePath', () => {
+    it('should use one card per project and one for the home page', () => {
+      expect(getOgImagePath('animet')).toBe('/og/projects/animet.png');
+      expect(getOgImagePath()).toBe('/og/home.png');
+    });
+  });
+
+  describe('wrapText', () => {
+    it('should break lines between words', () => {
+      expect(wrapText('one two three four', 9, 3)).toEqual(['one two', 'three', 'four']);
+    });
+
+    it('should end truncated text with an ellipsis', () => {
+      expect(wrapText('one two three four', 9, 2)).toEqual(['one two', 'three…']);
+      expect(wrapText('abcdefghijk lmn', 5, 1)).toEqual(['abcd…']);
+    });
+  });
+
+  describe('composeOgImageSvg', () => {
+    it('should contain the escaped title, description and badges', () => {
+      const svg = composeOgImageSvg(card);
+
+      expect(svg).toContain(`width="${OG_IMAGE_WIDTH}" height="${OG_IMAGE_HEIGHT}"`);
+      expect(svg).toContain('Tablist &amp; &lt;Friends&gt;');
+      expect(svg).toContain('Keeps browser tabs organized.');
+      expect(svg).toContain('>Vue.js</text>');
+      expect(svg).toContain('>TypeScript</text>');
+      expect(svg).toContain(siteConfig.name);
+      expect(svg).toContain(new URL(siteConfig.url).host);
+      expect(svg).not.toContain('<image');
+    });
+
+    it('should show a custom eyebrow and site', () => {
+      const svg = composeOgImageSvg({ ...card, eyebrow: 'Side project', site: 'example.com' });
+
+      expect(svg).toContain('>Side project</text>');
+      expect(svg).toContain('>example.com</text>');
+    });
+
+    it('should leave out badges that do not fit on one row', () => {
+      const svg = composeOgImageSvg({ ...card, technologies: Array.from({ length: 30 }, (_, i) => `Technology ${i}`) });
+
+      expect(svg).toContain('>Technology 0</text>');
+      expect(svg).not.toContain('>Technology 29</text>');
+    });
+
+    it('should embed the thumbnail on the right', () => {
+      const svg = composeOgImageSvg(card, { src: 'data:image/png;base64,AAAA', width: 440, height: 240 });
+
+      expect(svg).toContain('href="data:image/png;base64,AAAA"');
+      expect(svg).toContain('x="688" y="195" width="440" height="240"');
+    });
+  });
+
+  describe('renderOgImage', () => {
+    it('should render a PNG at the Open Graph size', async () => {
+      const thumbnail = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'og-image-')), 'thumbnail.png');
+      await sharp({ create: { width: 800, height: 400, channels: 3, background: '#336699' } }).png().toFile(thumbnail);
+
+      const png = await renderOgImage({ ...card, thumbnail });
+
+      expect(await sharp(png).metadata()).toMatchObject({ format: 'png', width: OG_IMAGE_WIDTH, height: OG_IMAGE_HEIGHT });
+    });
+  });
+});
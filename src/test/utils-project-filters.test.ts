@@ -0,0 +1,69 @@
+/**
+ * Unit tests for the project technology filter helpers
+ * Tests chip options, AND/OR matching and the live-region count text
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  getFilterOptions,
+  getTechnologyFilterIds,
+  matchesTechnologyFilter,
+  formatResultCount
+} from '../utils/project-filters';
+
+describe('Project Filters', () => {
+  describe('getFilterOptions', () => {
+    it('should merge spellings and count projects per technology', () => {
+      const options = getFilterOptions([
+        ['Vue.js', 'TypeScript'],
+        ['Vuejs', 'Node.js'],
+        ['React', 'TypeScript', 'TS']
+      ]);
+
+      expect(options.map(option => [option.id, option.count])).toEqual([
+        ['typescript', 2],
+        ['vue', 2],
+        ['nodejs', 1],
+        ['react', 1]
+      ]);
+      expect(options[1].name).toBe('Vue.js');
+    });
+
+    it('should return an empty list when there are no projects', () => {
+      expect(getFilterOptions([])).toEqual([]);
+    });
+  });
+
+  describe('getTechnologyFilterIds', () => {
+    it('should map names to registry ids', () => {
+      expect(getTechnologyFilterIds(['Vue.js', 'Some Tool'])).toEqual(['vue', 'some-tool']);
+    });
+  });
+
+  describe('matchesTechnologyFilter', () => {
+    const project = ['vue', 'typescript'];
+
+    it('should match everything when nothing is selected', () => {
+      expect(matchesTechnologyFilter(project, [])).toBe(true);
+      expect(matchesTechnologyFilter(project, [], 'and')).toBe(true);
+    });
+
+    it('should require any selected technology in OR mode', () => {
+      expect(matchesTechnologyFilter(project, ['vue', 'react'])).toBe(true);
+      expect(matchesTechnologyFilter(project, ['react'])).toBe(false);
+    });
+
+    it('should require every selected technology in AND mode', () => {
+      expect(matchesTechnologyFilter(project, ['vue', 'typescript'], 'and')).toBe(true);
+      expect(matchesTechnologyFilter(project, ['vue', 'react'], 'and')).toBe(false);
+    });
+  });
+
+  describe('formatResultCount', () => {
+    it('should describe filtered and unfiltered results', () => {
+      expect(formatResultCount(5, 5)).toBe('Showing all 5 projects');
+      expect(formatResultCount(2, 5)).toBe('Showing 2 of 5 projects');
+      expect(formatResultCount(1, 1)).toBe('Showing all 1 project');
+    });
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * Unit tests for the project ordering engine
+ * Tests each named strategy, tie-breaking and the data-attribute round trip
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  ORDER_STRATEGIES,
+  isOrderStrategy,
+  compareByStrategy,
+  sortByStrategy,
+  sortProjects,
+  getProjectOrderFields,
+  getOrderDataAttributes,
+  getElementOrderFields,
+  type OrderFields
+} from '../utils/project-order';
+import type { Project } from '../utils/content';
+
+const makeProject = (
+  slug: string,
+  data: { title: string; featured?: boolean; order?: number; publishDate: string; updatedDate?: string }
+): Project => ({
+  id: `${slug}.md`,
+  slug,
+  collection: 'projects',
+  data: {
+    featured: false,
+    order: 0,
+    ...data,
+    publishDate: new Date(data.publishDate),
+    updatedDate: data.updatedDate ? new Date(data.updatedDate) : undefined
+  }
+} as unknown as Project);
+
+const projects = [
+  makeProject('beta', { title: 'Beta', order: 2, publishDate: '2023-05-01' }),
+  makeProject('alpha', { title: 'Alpha', featured: true, order: 3, publishDate: '2021-01-01', updatedDate: '2024-06-01' }),
+  makeProject('gamma', { title: 'Gamma', featured: true, order: 1, publishDate: '2022-01-01' }),
+  makeProject('delta', { title: 'Delta', order: 2, publishDate: '2024-02-01' })
+];
+
+const slugs = (list: Project[]) => list.map(project => project.slug);
+
+describe('Project Ordering', () => {
+  describe('strategies', () => {
+    it('featured: featured first, then manual order, then newest', () => {
+      expect(slugs(sortProjects(projects, 'featured'))).toEqual(['gamma', 'alpha', 'delta', 'beta']);
+    });
+
+    it('timeline: newest first', () => {
+      expect(slugs(sortProjects(projects, 'timeline'))).toEqual(['delta', 'beta', 'gamma', 'alpha']);
+    });
+
+    it('alphabetical: by title', () => {
+      expect(slugs(sortProjects(projects, 'alphabetical'))).toEqual(['alpha', 'beta', 'delta', 'gamma']);
+    });
+
+    it('recently-updated: updatedDate, falling back to publishDate', () => {
+      expect(slugs(sortProjects(projects, 'recently-updated'))).toEqual(['alpha', 'delta', 'beta', 'gamma']);
+    });
+
+    it('manual: order, then newest', () => {
+      expect(slugs(sortProjects(projects, 'manual'))).toEqual(['gamma', 'delta', 'beta', 'alpha']);
+    });
+
+    it('should not mutate the input', () => {
+      const copy = [...projects];
+      sortProjects(projects, 'alphabetical');
+      expect(projects).toEqual(copy);
+    });
+  });
+
+  describe('tie-breaking', () => {
+    const base: OrderFields = { title: 'Same', featured: false, order: 1, publishDate: 0, updatedDate: 0 };
+
+    it('should treat identical fields as equal', () => {
+      expect(compareByStrategy(base, { ...base }, 'manual')).toBe(0);
+    });
+
+    it('should apply extra tie-breakers after the strategy chain', () => {
+      const items = [{ ...base, title: 'B' }, { ...base, title: 'A', featured: true }];
+      // Title already breaks the tie in the manual chain
+      expect(sortByStrategy(items, 'manual', item => item).map(i => i.title)).toEqual(['A', 'B']);
+      // Only reached when the whole chain ties
+      const tied = [{ ...base }, { ...base, featured: true }];
+      expect(sortByStrategy(tied, 'timeline', item => item, ['featured'])[0].featured).toBe(true);
+    });
+  });
+
+  describe('isOrderStrategy', () => {
+    it('should accept every named strategy and nothing else', () => {
+      Object.keys(ORDER_STRATEGIES).forEach(name => expect(isOrderStrategy(name)).toBe(true));
+      expect(isOrderStrategy('random')).toBe(false);
+      expect(isOrderStrategy(null)).toBe(false);
+    });
+  });
+
+  describe('data attributes', () => {
+    it('should round-trip fields so client re-sorts match the build', () => {
+      projects.forEach(project => {
+        const element = {
+          dataset: Object.fromEntries(
+            Object.entries(getOrderDataAttributes(project)).map(([key, value]) => [
+              key.replace(/^data-/, ''),
+              value
+            ])
+          )
+        };
+        expect(getElementOrderFields(element)).toEqual(getProjectOrderFields(project));
+      });
+    });
+  });
+});
@@ -0,0 +1,72 @@
+/**
+ * Unit tests for the PWA assets
+ * Tests icon composition and the generated web app manifest
+ */
+
+import { describe, it, expect } from 'vitest';
+import { PWA_ICONS, APPLE_TOUCH_ICON, composeIconSvg, buildWebManifest } from '../utils/pwa';
+import { siteConfig } from '../config/site';
+
+const favicon = `<svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 128 128">
+  <path d="M0 0h128v128H0z" />
+  <style>path { fill: #000; }</style>
+</svg>`;
+
+const findIcon = (purpose: string, size: number) =>
+  PWA_ICONS.find(icon => icon.purpose === purpose && icon.size === size)!;
+
+describe('PWA Assets', () => {
+  describe('composeIconSvg', () => {
+    it('should center the recolored glyph on the theme color', () => {
+      const svg = composeIconSvg(favicon, findIcon('any', 512));
+
+      expect(svg).toContain('width="512" height="512"');
+      expect(svg).toContain(`fill="${siteConfig.theme.themeColor}"`);
+      expect(svg).toContain('viewBox="0 0 128 128" fill="#ffffff"');
+      expect(svg).toContain('<path d="M0 0h128v128H0z" />');
+      expect(svg).not.toContain('<style>');
+    });
+
+    it('should keep maskable glyphs inside the safe zone and leave them full-bleed', () => {
+      const svg = composeIconSvg(favicon, findIcon('maskable', 512));
+      const [, x, width] = svg.match(/<svg x="(\d+)" y="\d+" width="(\d+)"/)!.map(Number);
+
+      expect(svg).toContain('rx="0"');
+      expect(x).toBeGreaterThanOrEqual(512 * 0.1);
+      expect(x * 2 + width).toBe(512);
+    });
+
+    it('should reject an SVG without a viewBox', () => {
+      expect(() => composeIconSvg('<svg></svg>', APPLE_TOUCH_ICON)).toThrow(/viewBox/);
+    });
+  });
+
+  describe('buildWebManifest', () => {
+    const manifest = buildWebManifest('/repo') as any;
+
+    it('should take name and colors from the site config', () => {
+      expect(manifest.short_name).toBe(siteConfig.shortName);
+      expect(manifest.theme_color).toBe(siteConfig.theme.themeColor);
+      expect(manifest.background_color).toBe(siteConfig.theme.backgroundColor);
+    });
+
+    it('should prefix start_url, scope, icons and shortcuts with the base', () => {
+      expect(manifest.start_url).toBe('/repo/');
+      expect(manifest.scope).toBe('/repo/');
+      manifest.icons.forEach((icon: { src: string }) => expect(icon.src).toMatch(/^\/repo\/icons\//));
+      expect(manifest.shortcuts.map((shortcut: { url: string }) => shortcut.url)).toEqual([
+        `/repo/cv/${siteConfig.cvFile}`,
+        '/repo/#projects',
+      ]);
+    });
+
+    it('should list PNG icons for both purposes but not the apple-touch-icon', () => {
+      expect(manifest.icons.map((icon: { purpose: string; sizes: string }) => `${icon.purpose} ${icon.sizes}`)).toEqual([
+        'any 192x192',
+        'any 512x512',
+        'maskable 192x192',
+        'maskable 512x512',
+      ]);
+    });
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * Unit tests for the client-side project search
+ * Tests index building, prefix/fuzzy matching and highlighting
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  tokenize,
+  stripMarkdown,
+  buildSearchIndex,
+  searchProjects,
+  highlightMatches
+} from '../utils/search';
+import type { Project } from '../utils/content';
+
+const makeProject = (slug: string, title: string, description: string, technologies: string[], body = ''): Project => ({
+  id: `${slug}.md`,
+  slug,
+  body,
+  collection: 'projects',
+  data: {
+    title,
+    description,
+    technologies,
+    thumbnail: '/images/placeholder.jpg',
+    links: {},
+    featured: false,
+    publishDate: new Date('2024-01-01'),
+    order: 1
+  }
+} as unknown as Project);
+
+const projects = [
+  makeProject('animet', 'Animet', 'Anime tracker for seasonal releases', ['Vue.js', 'AniList API'], 'Uses **GraphQL** queries.'),
+  makeProject('tablist', 'Tablist', 'Browser extension to manage tabs', ['TypeScript'], 'Keeps track of open tabs.'),
+  makeProject('shop', 'Importadora Elefante', 'Online store for imported goods', ['Astro', 'Shoprocket'], '```js\nconst secret = 1;\n```')
+];
+
+describe('Project Search', () => {
+  describe('tokenize', () => {
+    it('should lowercase, strip accents and drop stop words', () => {
+      expect(tokenize('The Café and the Vue.js App')).toEqual(['cafe', 'vue', 'js', 'app']);
+    });
+  });
+
+  describe('stripMarkdown', () => {
+    it('should drop code blocks and link targets but keep link text', () => {
+      const text = stripMarkdown('See [the docs](https://example.com)\n```ts\nconst x = 1;\n```');
+      expect(text).toContain('the docs');
+      expect(text).not.toContain('example.com');
+      expect(text).not.toContain('const');
+    });
+  });
+
+  describe('buildSearchIndex', () => {
+    it('should store display fields and index body terms without storing the body', () => {
+      const index = buildSearchIndex(projects);
+
+      expect(index.documents[0]).toEqual({
+        slug: 'animet',
+        title: 'Animet',
+        description: 'Anime tracker for seasonal releases',
+        technologies: ['Vue.js', 'AniList API']
+      });
+      expect(index.terms.graphql).toEqual([[0, 1]]);
+      expect(index.terms.secret).toBeUndefined();
+      expect(JSON.stringify(index)).not.toContain('queries.');
+    });
+
+    it('should index technology aliases', () => {
+      const index = buildSearchIndex(projects);
+      expect(index.terms.vuejs?.[0][0]).toBe(0);
+      expect(index.terms.ts?.[0][0]).toBe(1);
+    });
+  });
+
+  describe('searchProjects', () => {
+    const index = buildSearchIndex(projects);
+
+    it('should return nothing for an empty query', () => {
+      expect(searchProjects(index, '  ')).toEqual([]);
+    });
+
+    it('should match prefixes', () => {
+      expect(searchProjects(index, 'elef').map(r => r.document.slug)).toEqual(['shop']);
+    });
+
+    it('should tolerate typos in longer terms', () => {
+      expect(searchProjects(index, 'extention').map(r => r.document.slug)).toEqual(['tablist']);
+      expect(searchProjects(index, 'typscript').map(r => r.document.slug)).toEqual(['tablist']);
+    });
+
+    it('should require every query term to match', () => {
+      expect(searchProjects(index, 'anime vue').map(r => r.document.slug)).toEqual(['animet']);
+      expect(searchProjects(index, 'anime typescript')).toEqual([]);
+    });
+
+    it('should rank title matches above body matches', () => {
+      const ranked = buildSearchIndex([
+        makeProject('body', 'Other', 'Something', [], 'A tracker for tabs.'),
+        makeProject('title', 'Tracker', 'Something', [])
+      ]);
+      expect(searchProjects(ranked, 'tracker').map(r => r.document.slug)).toEqual(['title', 'body']);
+    });
+  });
+
+  describe('highlightMatches', () => {
+    it('should wrap matched words in mark elements', () => {
+      expect(highlightMatches('Anime tracker', ['tracker'])).toBe('Anime <mark>tracker</mark>');
+      expect(highlightMatches('Vue.js', ['vue'])).toBe('<mark>Vue</mark>.js');
+    });
+
+    it('should escape HTML in the text', () => {
+      expect(highlightMatches('<b>Tabs</b>', ['tabs'])).toBe('&lt;b&gt;<mark>Tabs</mark>&lt;/b&gt;');
+    });
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * Unit tests for the SEO audit
+ * Tests canonical URLs, page checks, JSON-LD validation and whole-site reports
+ */
+
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { describe, it, expect } from 'vitest';
+import {
+  getPagePath,
+  getExpectedCanonical,
+  validateStructuredData,
+  auditPage,
+  auditSeo,
+} from '../utils/seo-audit';
+
+const target = { site: 'https://example.com', base: '/repo', canonicalHost: 'example.com' };
+
+const description = 'A description that is long enough for search results to show it.';
+
+const page = ({
+  title = 'Projects - Jane Doe',
+  file = 'projects/index.html',
+  robots = 'index,follow',
+  body = '',
+  jsonLd = [{ '@context': 'https://schema.org', '@type': 'WebSite', name: 'Jane Doe', url: 'https://example.com/repo/' }] as unknown[],
+} = {}) => `<!doctype html><html><head>
+  <title>${title}</title>
+  <meta name="description" content="${description}">
+  <meta name="robots" content="${robots}">
+  <link rel="canonical" href="${getExpectedCanonical(file, target)}">
+  ${jsonLd.map(block => `<script type="application/ld+json">${typeof block === 'string' ? block : JSON.stringify(block)}</script>`).join('')}
+</head><body>${body}</body></html>`;
+
+const rules = (html: string, file = 'projects/index.html') => auditPage(html, file, target).issues.map(issue => issue.rule);
+
+describe('SEO Audit', () => {
+  describe('getExpectedCanonical', () => {
+    it('should map dist files to URLs under the deploy base', () => {
+      expect(getPagePath('index.html')).toBe('/');
+      expect(getPagePath('projects/animet/index.html')).toBe('/projects/animet/');
+      expect(getPagePath('about.html')).toBe('/about');
+      expect(getExpectedCanonical('projects/animet/index.html', target)).toBe('https://example.com/repo/projects/animet/');
+      expect(getExpectedCanonical('index.html', { ...target, base: '/', canonicalHost: 'www.example.com' }))
+        .toBe('https://www.example.com/');
+    });
+  });
+
+  describe('auditPage', () => {
+    it('should pass a complete page', () => {
+      expect(rules(page({ body: '<img src="/a.png" alt="">' }))).toEqual([]);
+    });
+
+    it('should report titles and descriptions over the limits', () => {
+      const html = page({ title: 'x'.repeat(61) }).replace(description, 'y'.repeat(161));
+      expect(rules(html)).toEqual(['title', 'description']);
+    });
+
+    it('should report a canonical URL that does not match the page', () => {
+      const [issue] = auditPage(page(), 'projects/animet/index.html', target).issues;
+
+      expect(issue.rule).toBe('canonical');
+      expect(issue.message).toContain('expected https://example.com/repo/projects/animet/');
+    });
+
+    it('should only check images and JSON-LD on pages that are not indexed', () => {
+      const html = page({ title: '', robots: 'noindex', body: '<img src="/a.png">' });
+
+      expect(rules(html)).toEqual(['img-alt']);
+      expect(rules(page({ title: '' }), '404.html')).toEqual([]);
+    });
+
+    it('should report JSON-LD that does not parse', () => {
+      expect(rules(page({ jsonLd: ['{ not json'] }))).toEqual(['json-ld']);
+    });
+  });
+
+  describe('validateStructuredData', () => {
+    const person = { '@type': 'Person', '@id': 'https://example.com/#person', name: 'Jane Doe', url: 'https://example.com/' };
+
+    it('should accept nodes that reference each other by @id', () => {
+      expect(validateStructuredData([
+        { '@context': 'https://schema.org', ...person },
+        { '@context': 'https://schema.org', '@type': 'CreativeWork', name: 'Portfolio', author: { '@id': person['@id'] } },
+      ])).toEqual([]);
+    });
+
+    it('should report unexpected types and missing properties', () => {
+      expect(validateStructuredData([
+        { '@context': 'https://schema.org', '@type': 'ProfilePage', mainEntity: { ...person, url: undefined } },
+        { '@context': 'http://schema.org', '@type': 'Event' },
+      ])).toEqual([
+        'block 1.mainEntity: Person is missing "url"',
+        'block 2: "@context" must be "https://schema.org"',
+        'block 2: unexpected type "Event"',
+      ]);
+    });
+
+    it('should report references to nodes that are not on the page', () => {
+      expect(validateStructuredData([
+        { '@context': 'https://schema.org', '@type': 'CreativeWork', name: 'Portfolio', author: { '@id': 'https://example.com/#person' } },
+      ])).toEqual(['reference to "https://example.com/#person" does not match any node on the page']);
+    });
+  });
+
+  describe('auditSeo', () => {
+    it('should report duplicate titles and missing site files across the build', () => {
+      const distDir = fs.mkdtempSync(path.join(os.tmpdir(), 'seo-audit-'));
+      fs.mkdirSync(path.join(distDir, 'projects'));
+      fs.writeFileSync(path.join(distDir, 'index.html'), page({ file: 'index.html' }));
+      fs.writeFileSync(path.join(distDir, 'projects', 'index.html'), page());
+      fs.writeFileSync(path.join(distDir, 'robots.txt'), '');
+
+      const report = auditSeo(distDir, target);
+
+      expect(report).toMatchObject({ site: target.site, base: target.base, pages: 2, errors: 3, warnings: 0 });
+      expect(report.issues.map(issue => `${issue.rule} ${issue.file}`)).toEqual([
+        'duplicate-title index.html',
+        'duplicate-title projects/index.html',
+        'site-files sitemap-index.xml',
+      ]);
+    });
+  });
+});
@@ -7,6 +7,9 @@ import { describe, it, expect } from 'vitest';
 import {
   generateProjectStructuredData,
   generatePortfolioStructuredData,
+  generatePersonStructuredData,
+  generateProfilePageStructuredData,
+  getPersonId,
   generateBreadcrumbStructuredData,
   generateFAQStructuredData,
   generateMetaDescription,
@@ -14,6 +17,7 @@ import {
   sanitizeSEOData,
   type SEOConfig
 } from '../utils/seo';
+import { siteConfig, getSocialProfileUrls } from '../config/site';
 
 // Mock project data for testing
 const mockProject = {
@@ -65,8 +69,7 @@ describe('SEO Utility Functions', () => {
         name: 'Test Project',
         description: 'A comprehensive test project showcasing modern web development techniques.',
         author: {
-          '@type': 'Person',
-          name: 'John Developer'
+          '@id': `${siteConfig.url}/#person`
         },
         dateCreated: '2024-01-15',
         dateModified: '2024-01-15',
@@ -74,24 +77,20 @@ describe('SEO Utility Functions', () => {
         programmingLanguage: ['React', 'TypeScript', 'Node.js'],
         url: 'https://test-project.example.com',
         codeRepository: 'https://github.com/user/test-project',
-        image: 'https://johndeveloper.dev/images/test-project.jpg',
+        image: `${siteConfig.url}/og/projects/test-project.png`,
         applicationCategory: 'DeveloperApplication',
         operatingSystem: 'Web Browser'
       });
     });
 
-    it('should handle custom author name and base URL', () => {
-      const result = generateProjectStructuredData(
-        mockProject,
-        'Jane Smith',
-        'https://janesmith.dev'
-      );
+    it('should handle a custom base URL', () => {
+      const result = generateProjectStructuredData(mockProject, 'https://janesmith.dev');
 
-      expect(result.author.name).toBe('Jane Smith');
-      expect(result.image).toBe('https://janesmith.dev/images/test-project.jpg');
+      expect(result.author).toEqual({ '@id': 'https://janesmith.dev/#person' });
+      expect(result.image).toBe('https://janesmith.dev/og/projects/test-project.png');
     });
 
-    it('should handle external image URLs', () => {
+    it('should use the generated Open Graph card even for external thumbnails', () => {
       const projectWithExternalImage = {
         ...mockProject,
         data: {
@@ -101,7 +100,7 @@ describe('SEO Utility Functions', () => {
       };
 
       const result = generateProjectStructuredData(projectWithExternalImage);
-      expect(result.image).toBe('https://external.com/image.jpg');
+      expect(result.image).toBe(`${siteConfig.url}/og/projects/test-project.png`);
     });
 
     it('should handle missing optional links', () => {
@@ -157,6 +156,16 @@ describe('SEO Utility Functions', () => {
       expect(secondItem.item.name).toBe('Second Project');
     });
 
+    it('should exclude drafts and scheduled projects', () => {
+      const draft = { ...mockProject, slug: 'draft', data: { ...mockProject.data, title: 'Draft', draft: true } };
+      const scheduled = { ...mockProject, slug: 'scheduled', data: { ...mockProject.data, title: 'Scheduled', publishDate: new Date(Date.now() + 86400000) } };
+      const result = generatePortfolioStructuredData([mockProject, draft, scheduled] as any);
+
+      expect(result.numberOfItems).toBe(1);
+      expect(result.itemListElement).toHaveLength(1);
+      expect(result.itemListElement[0].item.name).toBe('Test Project');
+    });
+
     it('should handle empty projects array', () => {
       const result = generatePortfolioStructuredData([]);
 
@@ -164,15 +173,56 @@ describe('SEO Utility Functions', () => {
       expect(result.itemListElement).toEqual([]);
     });
 
-    it('should use custom author and base URL', () => {
-      const result = generatePortfolioStructuredData(
-        mockProjects,
-        'Custom Author',
-        'https://custom.dev'
-      );
+    it('should use a custom base URL', () => {
+      const result = generatePortfolioStructuredData(mockProjects, 'https://custom.dev');
 
       const firstItem = result.itemListElement[0];
-      expect(firstItem.item.author.name).toBe('Custom Author');
+      expect(firstItem.item.author['@id']).toBe('https://custom.dev/#person');
+    });
+  });
+
+  describe('generatePersonStructuredData', () => {
+    it('should describe the site owner from the site config', () => {
+      const result = generatePersonStructuredData(mockProjects, 'https://custom.dev', 'https://custom.dev/avatar.png');
+
+      expect(result).toMatchObject({
+        '@context': 'https://schema.org',
+        '@type': 'Person',
+        '@id': getPersonId('https://custom.dev'),
+        name: siteConfig.name,
+        jobTitle: siteConfig.jobTitle,
+        url: 'https://custom.dev/',
+        email: siteConfig.contact.email,
+        image: 'https://custom.dev/avatar.png',
+        sameAs: getSocialProfileUrls()
+      });
+      expect(result.sameAs).toEqual(expect.arrayContaining([siteConfig.socials.github, siteConfig.socials.linkedin]));
+    });
+
+    it('should derive knowsAbout from published project technologies', () => {
+      const draft = { ...mockProject, slug: 'draft', data: { ...mockProject.data, technologies: ['Rust'], draft: true } };
+      const result = generatePersonStructuredData([...mockProjects, draft] as any);
+
+      expect(result.knowsAbout).toEqual(expect.arrayContaining(['React', 'TypeScript', 'Node.js', 'JavaScript']));
+      expect(result.knowsAbout).not.toContain('Rust');
+      expect(new Set(result.knowsAbout).size).toBe(result.knowsAbout.length);
+    });
+
+    it('should leave out the image when there is none', () => {
+      expect(generatePersonStructuredData([])).not.toHaveProperty('image');
+    });
+  });
+
+  describe('generateProfilePageStructuredData', () => {
+    it('should wrap the person as the main entity', () => {
+      const person = generatePersonStructuredData(mockProjects, 'https://custom.dev');
+      const result = generateProfilePageStructuredData(person, 'https://custom.dev', new Date('2024-03-01T00:00:00Z'));
+
+      expect(result['@type']).toBe('ProfilePage');
+      expect(result.url).toBe('https://custom.dev/');
+      expect(result.dateModified).toBe('2024-03-01T00:00:00.000Z');
+      expect(result.mainEntity['@id']).toBe('https://custom.dev/#person');
+      expect(result.mainEntity).not.toHaveProperty('@context');
     });
   });
 
@@ -195,13 +245,13 @@ describe('SEO Utility Functions', () => {
       expect(firstCrumb['@type']).toBe('ListItem');
       expect(firstCrumb.position).toBe(1);
       expect(firstCrumb.name).toBe('Home');
-      expect(firstCrumb.item).toBe('https://johndeveloper.dev/');
+      expect(firstCrumb.item).toBe(`${siteConfig.url}/`);
 
       // Check last breadcrumb
       const lastCrumb = result.itemListElement[2];
       expect(lastCrumb.position).toBe(3);
       expect(lastCrumb.name).toBe('Test Project');
-      expect(lastCrumb.item).toBe('https://johndeveloper.dev/projects/test-project');
+      expect(lastCrumb.item).toBe(`${siteConfig.url}/projects/test-project`);
     });
 
     it('should handle absolute URLs', () => {
@@ -227,8 +277,13 @@ describe('SEO Utility Functions', () => {
   });
 
   describe('generateFAQStructuredData', () => {
+    const faqs = [
+      { slug: 'stack', question: 'What do you build with?', answerHtml: '<p>Mostly <strong>Vue.js</strong>.</p>' },
+      { slug: 'contact', question: 'How can I contact you?', answerHtml: '<p>Send an email.</p>' }
+    ];
+
     it('should generate valid FAQ structured data', () => {
-      const result = generateFAQStructuredData();
+      const result = generateFAQStructuredData(faqs);
 
       expect(result['@context']).toBe('https://schema.org');
       expect(result['@type']).toBe('FAQPage');
@@ -243,14 +298,15 @@ describe('SEO Utility Functions', () => {
       expect(firstFAQ.acceptedAnswer.text).toBeTruthy();
     });
 
-    it('should include expected FAQ topics', () => {
-      const result = generateFAQStructuredData();
-      const questions = result.mainEntity.map((item: any) => item.name);
+    it('should use the same questions and answers as the FAQ section, in order', () => {
+      const result = generateFAQStructuredData(faqs);
+
+      expect(result.mainEntity.map(item => item.name)).toEqual(['What do you build with?', 'How can I contact you?']);
+      expect(result.mainEntity[0].acceptedAnswer.text).toBe('<p>Mostly <strong>Vue.js</strong>.</p>');
+    });
 
-      expect(questions).toContain('What technologies do you specialize in?');
-      expect(questions).toContain('How can I view your CV?');
-      expect(questions).toContain('Are you available for freelance projects?');
-      expect(questions).toContain('What is your development approach?');
+    it('should handle an empty FAQ', () => {
+      expect(generateFAQStructuredData([]).mainEntity).toEqual([]);
     });
   });
 
@@ -404,10 +460,10 @@ describe('SEO Utility Functions', () => {
 
       expect(result.title).toBe('Portfolio - Full Stack Developer');
       expect(result.description).toBe('Modern portfolio showcasing full-stack development projects and expertise');
-      expect(result.image).toBe('/images/og-image.svg');
+      expect(result.image).toBe('/og/home.png');
       expect(result.keywords).toEqual(['developer', 'portfolio', 'full-stack']);
       expect(result.type).toBe('website');
-      expect(result.author).toBe('John Developer');
+      expect(result.author).toBe(siteConfig.name);
       expect(result.noindex).toBe(false);
       expect(result.nofollow).toBe(false);
     });
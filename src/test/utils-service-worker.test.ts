@@ -0,0 +1,217 @@
+/**
+ * Unit tests for the build-generated service worker
+ * Tests precache manifest building, revisions, the generated routes and update behavior
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  getFileUrl,
+  buildPrecacheManifest,
+  generateServiceWorker
+} from '../utils/service-worker';
+
+const files = [
+  { path: 'index.html', content: '<html>home</html>' },
+  { path: 'projects/animet/index.html', content: '<html>animet</html>' },
+  { path: 'assets/client.abc123.js', content: 'console.log(1)' },
+  { path: 'assets/index.def456.css', content: 'body{}' },
+  { path: 'assets/avatar.789.png', content: 'png' },
+  { path: 'images/projects/animet-640w.webp', content: 'webp' },
+  { path: 'cv/resume.pdf', content: 'pdf' },
+  { path: 'favicon.svg', content: '<svg/>' },
+  { path: 'icons/icon-192.png', content: 'png' },
+  { path: 'manifest.webmanifest', content: '{}' },
+  { path: 'sitemap-0.xml', content: '<xml/>' }
+];
+
+describe('Service Worker Generation', () => {
+  describe('getFileUrl', () => {
+    it('should serve index.html files from their directory URL', () => {
+      expect(getFileUrl('index.html', '/repo')).toBe('/repo/');
+      expect(getFileUrl('projects/animet/index.html', '')).toBe('/projects/animet/');
+      expect(getFileUrl('404.html', '/repo')).toBe('/repo/404.html');
+    });
+  });
+
+  describe('buildPrecacheManifest', () => {
+    it('should precache pages, scripts, styles, app icons and the CV but not images or sitemaps', () => {
+      const urls = buildPrecacheManifest(files, '/repo').map(entry => entry.url);
+      expect(urls).toEqual([
+        '/repo/',
+        '/repo/assets/client.abc123.js',
+        '/repo/assets/index.def456.css',
+        '/repo/cv/resume.pdf',
+        '/repo/favicon.svg',
+        '/repo/icons/icon-192.png',
+        '/repo/manifest.webmanifest',
+        '/repo/projects/animet/'
+      ]);
+    });
+
+    it('should revision entries by content', () => {
+      const [first] = buildPrecacheManifest([{ path: 'index.html', content: 'a' }], '');
+      const [same] = buildPrecacheManifest([{ path: 'index.html', content: 'a' }], '');
+      const [changed] = buildPrecacheManifest([{ path: 'index.html', content: 'b' }], '');
+      expect(first.revision).toMatch(/^[0-9a-f]{12}$/);
+      expect(same.revision).toBe(first.revision);
+      expect(changed.revision).not.toBe(first.revision);
+    });
+  });
+
+  describe('generateServiceWorker', () => {
+    const manifest = buildPrecacheManifest(files, '/repo');
+    const script = generateServiceWorker(manifest, '/repo');
+
+    it('should be valid JavaScript', () => {
+      expect(() => new Function(script)).not.toThrow();
+    });
+
+    it('should embed the manifest with revisions and nothing build-specific', () => {
+      expect(script).toContain('const PRECACHE = "portfolio-precache"');
+      expect(script).toContain('"/repo/assets/client.abc123.js"');
+      expect(script).toContain(`"revision": "${manifest[0].revision}"`);
+      expect(script).not.toContain('Date.now()');
+    });
+
+    it('should only change when a precached file changes', () => {
+      expect(generateServiceWorker(buildPrecacheManifest([...files].reverse(), '/repo'), '/repo')).toBe(script);
+
+      const edited = files.map(file => file.path === 'sitemap-0.xml' ? { ...file, content: '<xml>new</xml>' } : file);
+      expect(generateServiceWorker(buildPrecacheManifest(edited, '/repo'), '/repo')).toBe(script);
+
+      const replacedCv = files.map(file => file.path === 'cv/resume.pdf' ? { ...file, content: 'new pdf' } : file);
+      expect(generateServiceWorker(buildPrecacheManifest(replacedCv, '/repo'), '/repo')).not.toBe(script);
+    });
+
+    it('should scope every route to the base path', () => {
+      expect(script).toContain('const HOME_URL = "/repo/"');
+      expect(script).toContain('const ASSETS_PREFIX = "/repo/assets/"');
+      expect(script).not.toMatch(/['"]\/(assets|favicon)/);
+    });
+
+    it('should use a strategy per kind of request', () => {
+      expect(script).toContain('networkFirst(request, RUNTIME_CACHES.pages)');
+      expect(script).toContain('cacheFirst(request, RUNTIME_CACHES.assets)');
+      expect(script).toContain('staleWhileRevalidate(request, RUNTIME_CACHES.images)');
+      expect(script).toContain('staleWhileRevalidate(request, RUNTIME_CACHES.documents)');
+    });
+
+    it('should fall back to the offline page for uncached navigations', () => {
+      expect(script).toContain('const OFFLINE_URL = "/repo/offline/"');
+      expect(script).toContain('caches.match(OFFLINE_URL, { ignoreSearch: true })');
+    });
+
+    it('should answer a failed navigation with the offline page', async () => {
+      const listeners: Record<string, (event: any) => void> = {};
+      const worker = {
+        addEventListener: (type: string, listener: (event: any) => void) => { listeners[type] = listener; },
+        location: { origin: 'https://example.com' },
+      };
+      const offlinePage = new Response('offline');
+      const cacheStorage = {
+        // The offline page is precached under its revision
+        match: vi.fn((request: unknown, options?: CacheQueryOptions) =>
+          Promise.resolve(request === '/repo/offline/' && options?.ignoreSearch ? offlinePage : undefined)),
+      };
+      const fetch = vi.fn().mockRejectedValue(new TypeError('Failed to fetch'));
+      new Function('self', 'caches', 'fetch', script)(worker, cacheStorage, fetch);
+
+      let response: Promise<Response> | undefined;
+      listeners.fetch({
+        request: {
+          method: 'GET',
+          url: 'https://example.com/repo/projects/unvisited/',
+          mode: 'navigate',
+          headers: new Headers({ accept: 'text/html' }),
+        },
+        respondWith: (promise: Promise<Response>) => { response = promise; },
+      });
+
+      expect(await response).toBe(offlinePage);
+    });
+
+    it('should only download precache entries whose revision is not cached yet', async () => {
+      const listeners: Record<string, (event: any) => void> = {};
+      const worker = {
+        addEventListener: (type: string, listener: (event: any) => void) => { listeners[type] = listener; },
+        skipWaiting: vi.fn(),
+      };
+      const keys = manifest.map(entry => `${entry.url}?__revision=${entry.revision}`);
+      // Everything but the CV is unchanged since the installed build
+      const cached = new Set(keys.filter(key => !key.startsWith('/repo/cv/')));
+      const cache = {
+        match: vi.fn((key: string) => Promise.resolve(cached.has(key) ? new Response('cached') : undefined)),
+        put: vi.fn().mockResolvedValue(undefined),
+      };
+      const cacheStorage = { open: vi.fn().mockResolvedValue(cache) };
+      const fetch = vi.fn().mockResolvedValue(new Response('pdf'));
+      new Function('self', 'caches', 'fetch', script)(worker, cacheStorage, fetch);
+
+      let installed: Promise<unknown> = Promise.resolve();
+      listeners.install({ waitUntil: (promise: Promise<unknown>) => { installed = promise; } });
+      await installed;
+
+      expect(fetch.mock.calls).toEqual([['/repo/cv/resume.pdf', { cache: 'no-cache' }]]);
+      expect(cache.put).toHaveBeenCalledTimes(1);
+      expect(cache.put.mock.calls[0][0]).toBe(keys.find(key => key.startsWith('/repo/cv/')));
+    });
+
+    it('should drop old caches and outdated precache revisions on activate', async () => {
+      const listeners: Record<string, (event: any) => void> = {};
+      const worker = {
+        addEventListener: (type: string, listener: (event: any) => void) => { listeners[type] = listener; },
+        clients: { claim: vi.fn() },
+      };
+      const [home] = manifest;
+      const precache = {
+        keys: vi.fn().mockResolvedValue([
+          new Request(`https://example.com${home.url}?__revision=${home.revision}`),
+          new Request(`https://example.com${home.url}?__revision=0ld000000000`)
+        ]),
+        delete: vi.fn().mockResolvedValue(true),
+      };
+      const cacheStorage = {
+        keys: vi.fn().mockResolvedValue([
+          'portfolio-documents-0ld000000000',
+          'portfolio-precache-0ld000000000',
+          'portfolio-documents',
+          'portfolio-precache',
+          'portfolio-images',
+          'other-app'
+        ]),
+        delete: vi.fn().mockResolvedValue(true),
+        open: vi.fn().mockResolvedValue(precache),
+      };
+      new Function('self', 'caches', script)(worker, cacheStorage);
+
+      let activated: Promise<unknown> = Promise.resolve();
+      listeners.activate({ waitUntil: (promise: Promise<unknown>) => { activated = promise; } });
+      await activated;
+
+      expect(cacheStorage.delete.mock.calls).toEqual([['portfolio-documents-0ld000000000'], ['portfolio-precache-0ld000000000']]);
+      expect(precache.delete).toHaveBeenCalledTimes(1);
+      expect(precache.delete.mock.calls[0][0].url).toBe(`https://example.com${home.url}?__revision=0ld000000000`);
+      expect(worker.clients.claim).toHaveBeenCalled();
+    });
+
+    it('should wait after installing until the page sends SKIP_WAITING', async () => {
+      const listeners: Record<string, (event: any) => void> = {};
+      const worker = {
+        addEventListener: (type: string, listener: (event: any) => void) => { listeners[type] = listener; },
+        skipWaiting: vi.fn(),
+      };
+      const cache = { match: vi.fn().mockResolvedValue(new Response('cached')) };
+      const cacheStorage = { open: vi.fn().mockResolvedValue(cache) };
+      new Function('self', 'caches', script)(worker, cacheStorage);
+
+      let installed: Promise<unknown> = Promise.resolve();
+      listeners.install({ waitUntil: (promise: Promise<unknown>) => { installed = promise; } });
+      await installed;
+      expect(cache.match).toHaveBeenCalledTimes(manifest.length);
+      expect(worker.skipWaiting).not.toHaveBeenCalled();
+
+      listeners.message({ data: { type: 'SKIP_WAITING' } });
+      expect(worker.skipWaiting).toHaveBeenCalledTimes(1);
+    });
+  });
+});
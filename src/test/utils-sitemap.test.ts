@@ -0,0 +1,155 @@
+/**
+ * Unit tests for the sitemap entries
+ * Tests lastmod fallbacks, priority ranking, technology pages and the serialize hook
+ */
+
+import { describe, it, expect } from 'vitest';
+import path from 'node:path';
+import { SitemapStream, streamToPromise } from 'sitemap';
+import {
+  HOME_PRIORITY,
+  getContentDate,
+  getSitemapPages,
+  createSitemapSerializer,
+  loadSitemapContent,
+  type SitemapProject
+} from '../utils/sitemap';
+
+const makeProject = (slug: string, data: Partial<SitemapProject> = {}): SitemapProject => ({
+  slug,
+  title: slug,
+  thumbnail: `/images/projects/${slug}.png`,
+  technologies: [],
+  featured: false,
+  order: 0,
+  publishDate: new Date('2023-01-01'),
+  draft: false,
+  ...data
+});
+
+const NOW = new Date('2025-01-01');
+
+describe('Sitemap', () => {
+  describe('getContentDate', () => {
+    it('should prefer updatedDate, then the commit time, then publishDate', () => {
+      const committedDate = new Date('2024-08-01');
+      const updatedDate = new Date('2024-06-01');
+      const publishDate = new Date('2023-01-01');
+
+      expect(getContentDate({ publishDate, updatedDate, committedDate })).toEqual(updatedDate);
+      expect(getContentDate({ publishDate, committedDate })).toEqual(committedDate);
+      expect(getContentDate({ publishDate })).toEqual(publishDate);
+    });
+  });
+
+  describe('getSitemapPages', () => {
+    const pages = getSitemapPages({
+      projects: [
+        makeProject('beta', { order: 2, technologies: ['Vue.js'], publishDate: new Date('2022-01-01') }),
+        makeProject('alpha', { featured: true, order: 3, technologies: ['vue'], updatedDate: new Date('2024-06-01') }),
+        makeProject('gamma', { featured: true, order: 1, technologies: ['TypeScript'] }),
+        makeProject('draft', { draft: true, featured: true, updatedDate: new Date('2024-12-01') }),
+        makeProject('scheduled', { publishDate: new Date('2026-01-01') })
+      ],
+      otherContentDates: [new Date('2024-03-01')]
+    }, NOW);
+
+    it('should rank project priorities by featured, then order', () => {
+      expect(pages.get('/projects/gamma/')?.priority).toBe(0.9);
+      expect(pages.get('/projects/alpha/')?.priority).toBe(0.8);
+      expect(pages.get('/projects/beta/')?.priority).toBe(0.7);
+    });
+
+    it('should use each project\'s own date and thumbnail', () => {
+      expect(pages.get('/projects/alpha/')).toMatchObject({
+        lastmod: new Date('2024-06-01'),
+        images: ['/images/projects/alpha.png']
+      });
+      expect(pages.get('/projects/beta/')?.lastmod).toEqual(new Date('2022-01-01'));
+    });
+
+    it('should leave out drafts and scheduled projects', () => {
+      expect(pages.has('/projects/draft/')).toBe(false);
+      expect(pages.has('/projects/scheduled/')).toBe(false);
+    });
+
+    it('should date technology pages by their newest project, across spellings', () => {
+      expect(pages.get('/tech/vue/')?.lastmod).toEqual(new Date('2024-06-01'));
+      expect(pages.get('/tech/typescript/')?.lastmod).toEqual(new Date('2023-01-01'));
+      expect(pages.get('/tech/vue/')?.priority).toBeUndefined();
+    });
+
+    it('should date the home page by its newest content', () => {
+      expect(pages.get('/')).toMatchObject({ lastmod: new Date('2024-06-01'), priority: HOME_PRIORITY });
+
+      const withNewerFaq = getSitemapPages({ projects: [makeProject('beta')], otherContentDates: [new Date('2024-09-01')] }, NOW);
+      expect(withNewerFaq.get('/')?.lastmod).toEqual(new Date('2024-09-01'));
+    });
+
+    it('should not drop below the minimum priority', () => {
+      const many = getSitemapPages({
+        projects: Array.from({ length: 12 }, (_, index) => makeProject(`p${index}`, { order: index })),
+        otherContentDates: []
+      }, NOW);
+      expect(many.get('/projects/p11/')?.priority).toBe(0.5);
+    });
+  });
+
+  describe('createSitemapSerializer', () => {
+    const pages = getSitemapPages({
+      projects: [makeProject('animet', { featured: true, order: 1 })],
+      otherContentDates: []
+    }, NOW);
+
+    it('should add lastmod, priority and absolute image URLs under the deploy base', () => {
+      const serialize = createSitemapSerializer(pages, 'https://example.github.io', '/repo');
+      expect(serialize({ url: 'https://example.github.io/repo/projects/animet/', priority: 0.7 })).toEqual({
+        url: 'https://example.github.io/repo/projects/animet/',
+        lastmod: '2023-01-01T00:00:00.000Z',
+        priority: 0.9,
+        img: [{ url: 'https://example.github.io/repo/images/projects/animet.png' }]
+      });
+      expect(serialize({ url: 'https://example.github.io/repo/' }).priority).toBe(HOME_PRIORITY);
+    });
+
+    it('should match URLs without a trailing slash', () => {
+      const serialize = createSitemapSerializer(pages, 'https://example.com', '/');
+      expect(serialize({ url: 'https://example.com/projects/animet' }).priority).toBe(0.9);
+    });
+
+    it('should keep the ranking in the XML the sitemap package writes', async () => {
+      const ranked = getSitemapPages({
+        projects: ['first', 'second', 'third'].map((slug, index) => makeProject(slug, { order: index })),
+        otherContentDates: []
+      }, NOW);
+      const serialize = createSitemapSerializer(ranked, 'https://example.com', '/');
+      const stream = new SitemapStream({ hostname: 'https://example.com' });
+      ['first', 'second', 'third'].forEach(slug => stream.write(serialize({ url: `https://example.com/projects/${slug}/` })));
+      stream.end();
+
+      const xml = (await streamToPromise(stream)).toString();
+      const priorities = [...xml.matchAll(/<priority>([^<]+)<\/priority>/g)].map(([, priority]) => priority);
+      expect(priorities).toEqual(['0.9', '0.8', '0.7']);
+      expect(xml).toContain('<image:loc>https://example.com/images/projects/first.png</image:loc>');
+    });
+
+    it('should keep the defaults of pages without content', () => {
+      const serialize = createSitemapSerializer(pages, 'https://example.com', '/');
+      const item = { url: 'https://example.com/offline/', priority: 0.7 };
+      expect(serialize(item)).toBe(item);
+    });
+  });
+
+  describe('loadSitemapContent', () => {
+    it('should read every project from src/content', () => {
+      const { projects } = loadSitemapContent(path.join(process.cwd(), 'src/content'));
+
+      expect(projects.length).toBeGreaterThan(0);
+      projects.forEach(project => {
+        expect(project.slug).toMatch(/^[a-z0-9-]+$/);
+        expect(project.publishDate).toBeInstanceOf(Date);
+        expect(project.thumbnail).toMatch(/^\//);
+      });
+    });
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * Unit tests for the technology taxonomy registry
+ * Tests alias resolution, normalization, display data and keywords
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  technologies,
+  resolveTechnology,
+  normalizeTechnologyName,
+  isSameTechnology,
+  getTechnologyDisplay,
+  getTechnologyKeywords,
+  getTechnologyPath
+} from '../utils/technologies';
+
+describe('Technology Registry', () => {
+  describe('registry data', () => {
+    it('should have unique ids and spellings', () => {
+      const ids = technologies.map(tech => tech.id);
+      expect(new Set(ids).size).toBe(ids.length);
+
+      technologies.forEach(tech => {
+        [tech.name, ...tech.aliases].forEach(spelling => {
+          expect(resolveTechnology(spelling)).toBe(tech);
+        });
+      });
+    });
+
+    it('should only reference local SVG icons', () => {
+      technologies
+        .filter(tech => tech.icon)
+        .forEach(tech => {
+          expect(tech.icon).toMatch(/^\/images\/tech\/[a-z0-9-]+\.svg$/);
+        });
+    });
+  });
+
+  describe('resolveTechnology', () => {
+    it('should resolve aliases regardless of case and punctuation', () => {
+      expect(resolveTechnology('Vuejs')?.name).toBe('Vue.js');
+      expect(resolveTechnology('vue')?.name).toBe('Vue.js');
+      expect(resolveTechnology('NODEJS')?.name).toBe('Node.js');
+      expect(resolveTechnology('Tailwind CSS')?.name).toBe('TailwindCSS');
+      expect(resolveTechnology('  anilist api ')?.name).toBe('AniList API');
+    });
+
+    it('should return undefined for unknown technologies', () => {
+      expect(resolveTechnology('Cobol')).toBeUndefined();
+    });
+  });
+
+  describe('normalizeTechnologyName', () => {
+    it('should map spellings to the canonical name', () => {
+      expect(normalizeTechnologyName('Expressjs')).toBe('Express.js');
+      expect(normalizeTechnologyName('Solidjs')).toBe('SolidJS');
+    });
+
+    it('should keep unknown names trimmed but otherwise unchanged', () => {
+      expect(normalizeTechnologyName(' Cobol ')).toBe('Cobol');
+    });
+  });
+
+  describe('isSameTechnology', () => {
+    it('should compare through the registry', () => {
+      expect(isSameTechnology('Vue.js', 'Vuejs')).toBe(true);
+      expect(isSameTechnology('React', 'Vue.js')).toBe(false);
+      expect(isSameTechnology('Cobol', 'cobol')).toBe(true);
+      expect(isSameTechnology('Cobol', 'React')).toBe(false);
+    });
+  });
+
+  describe('getTechnologyDisplay', () => {
+    it('should return canonical name, category and icon', () => {
+      expect(getTechnologyDisplay('vuejs')).toEqual({
+        id: 'vue',
+        name: 'Vue.js',
+        category: 'framework',
+        icon: '/images/tech/vue.svg'
+      });
+    });
+
+    it('should fall back to a slug for unknown technologies', () => {
+      expect(getTechnologyDisplay('Some Tool 2.0')).toEqual({
+        id: 'some-tool-2-0',
+        name: 'Some Tool 2.0'
+      });
+    });
+  });
+
+  describe('getTechnologyKeywords', () => {
+    it('should include the canonical name and all aliases in lowercase', () => {
+      expect(getTechnologyKeywords('Node')).toEqual(['node.js', 'node', 'nodejs']);
+    });
+
+    it('should return the lowercased input for unknown technologies', () => {
+      expect(getTechnologyKeywords('Cobol')).toEqual(['cobol']);
+    });
+  });
+
+  describe('getTechnologyPath', () => {
+    it('should build landing page paths from the registry id', () => {
+      expect(getTechnologyPath('Vuejs')).toBe('/tech/vue/');
+      expect(getTechnologyPath('AniList API')).toBe('/tech/anilist-api/');
+      expect(getTechnologyPath('Some Tool')).toBe('/tech/some-tool/');
+    });
+  });
+});
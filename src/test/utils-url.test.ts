@@ -0,0 +1,50 @@
+/**
+ * Unit tests for the base-aware URL helpers
+ * Tests root and subpath deployments, external URLs and idempotency
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getBasePath, withBase, absoluteUrl } from '../utils/url';
+
+describe('URL Utilities', () => {
+  describe('getBasePath', () => {
+    it('should drop trailing slashes', () => {
+      expect(getBasePath('/')).toBe('');
+      expect(getBasePath('/repo/')).toBe('/repo');
+      expect(getBasePath('repo')).toBe('/repo');
+    });
+  });
+
+  describe('withBase', () => {
+    it('should leave paths unchanged for root deployments', () => {
+      expect(withBase('/cv/file.pdf', '/')).toBe('/cv/file.pdf');
+      expect(withBase('/', '/')).toBe('/');
+    });
+
+    it('should prefix paths for subpath deployments', () => {
+      expect(withBase('/cv/file.pdf', '/repo/')).toBe('/repo/cv/file.pdf');
+      expect(withBase('projects/animet/', '/repo')).toBe('/repo/projects/animet/');
+      expect(withBase('/', '/repo')).toBe('/repo/');
+    });
+
+    it('should not prefix a path twice', () => {
+      expect(withBase('/repo/favicon.svg', '/repo')).toBe('/repo/favicon.svg');
+      expect(withBase('/repository/favicon.svg', '/repo')).toBe('/repo/repository/favicon.svg');
+    });
+
+    it('should leave external URLs and anchors alone', () => {
+      expect(withBase('https://github.com/cdsar626', '/repo')).toBe('https://github.com/cdsar626');
+      expect(withBase('//fonts.googleapis.com', '/repo')).toBe('//fonts.googleapis.com');
+      expect(withBase('mailto:me@example.com', '/repo')).toBe('mailto:me@example.com');
+      expect(withBase('#projects', '/repo')).toBe('#projects');
+    });
+  });
+
+  describe('absoluteUrl', () => {
+    it('should include the base in absolute URLs', () => {
+      expect(absoluteUrl('/og/home.png', 'https://example.com', '/repo'))
+        .toBe('https://example.com/repo/og/home.png');
+      expect(absoluteUrl('/', 'https://example.com/', '/')).toBe('https://example.com/');
+    });
+  });
+});
@@ -202,47 +202,6 @@ export const buildOptimizations = {
     );
   },
   
-  // Optimize images
-  optimizeImages: async (imagePath: string): Promise<string[]> => {
-    // This would use sharp or similar to generate optimized versions
-    const formats = ['webp', 'avif'];
-    const breakpoints = assetOptimization.images.breakpoints;
-    
-    const optimizedImages: string[] = [];
-    
-    for (const format of formats) {
-      for (const width of breakpoints) {
-        // Generate optimized image
-        const optimizedPath = `${imagePath}-${width}w.${format}`;
-        optimizedImages.push(optimizedPath);
-      }
-    }
-    
-    return optimizedImages;
-  },
-  
-  // Generate service worker
-  generateServiceWorker: (assets: string[]): string => {
-    return `
-      const CACHE_NAME = 'portfolio-v${Date.now()}';
-      const ASSETS_TO_CACHE = ${JSON.stringify(assets)};
-      
-      self.addEventListener('install', (event) => {
-        event.waitUntil(
-          caches.open(CACHE_NAME)
-            .then((cache) => cache.addAll(ASSETS_TO_CACHE))
-        );
-      });
-      
-      self.addEventListener('fetch', (event) => {
-        event.respondWith(
-          caches.match(event.request)
-            .then((response) => response || fetch(event.request))
-        );
-      });
-    `;
-  },
-  
   // Validate performance budgets
   validateBudgets: (stats: any): { passed: boolean; violations: string[] } => {
     const violations: string[] = [];
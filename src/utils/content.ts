@@ -1,23 +1,87 @@
 import { getCollection, type CollectionEntry } from 'astro:content';
+import { getTechnologyDisplay, isSameTechnology, type TechnologyDisplay } from './technologies';
+import { sortProjects } from './project-order';
+import { isPublished } from './publishing';
+
+export { isPublished };
 
 export type Project = CollectionEntry<'projects'>;
+export type Experience = CollectionEntry<'experience'>;
+export type Skill = CollectionEntry<'skills'>;
+export type Faq = CollectionEntry<'faq'>;
+
+export interface SkillWithProjects {
+  skill: Skill;
+  projects: Project[];
+}
+
+export interface UnknownTechnology {
+  project: Project;
+  technology: string;
+}
+
+export interface SkillProjectMatch {
+  skills: SkillWithProjects[];
+  unknownTechnologies: UnknownTechnology[];
+}
+
+export interface TechnologyProjects {
+  technology: TechnologyDisplay;
+  projects: Project[];
+  firstPublished: Date;
+  lastPublished: Date;
+}
+
+export interface FaqItem {
+  slug: string;
+  question: string;
+  /** Answer rendered from the entry's markdown */
+  answerHtml: string;
+}
+
+export interface RelatedProject {
+  project: Project;
+  score: number;
+  /** Canonical names of the technologies both projects use, rarest first */
+  sharedTechnologies: string[];
+  /** Whole months between the two publish dates */
+  monthsApart: number;
+}
+
+// Related projects: share of the score given to publish-date proximity,
+// and the distance (in months) at which that bonus has halved
+const RELATED_DATE_WEIGHT = 0.25;
+const RELATED_DATE_HALF_LIFE_MONTHS = 12;
+
+const PROFICIENCY_RANK: Record<NonNullable<Skill['data']['proficiency']>, number> = {
+  expert: 4,
+  advanced: 3,
+  intermediate: 2,
+  beginner: 1,
+};
+
+/**
+ * Publishing rule shared by every project list: unpublished projects are
+ * visible in `astro dev` (with a Draft badge) and excluded from production builds
+ * @param project - Project entry
+ * @param includeUnpublished - Whether drafts and scheduled projects are listed
+ * @returns boolean - True if the project should be listed
+ */
+export function isVisibleProject(project: Project, includeUnpublished: boolean = import.meta.env.DEV): boolean {
+  return includeUnpublished || isPublished(project);
+}
 
 /**
  * Safely loads all projects with error handling
- * @returns Promise<Project[]> - Array of valid projects
+ * @returns Promise<Project[]> - Array of valid projects, in manual order
  */
 export async function getProjects(): Promise<Project[]> {
   try {
-    const projects = await getCollection('projects');
-    
-    // Sort by order and then by publish date (newest first)
-    return projects.sort((a, b) => {
-      if (a.data.order !== b.data.order) {
-        return a.data.order - b.data.order;
-      }
-      return b.data.publishDate.getTime() - a.data.publishDate.getTime();
-    });
-    
+    const projects = await getCollection('projects', (project) => isVisibleProject(project));
+
+    // Sort by order, then by publish date (newest first)
+    return sortProjects(projects, 'manual');
+
   } catch (error) {
     console.error('Error loading projects:', error);
     
@@ -55,6 +119,256 @@ export async function getProjectBySlug(slug: string): Promise<Project | undefine
   }
 }
 
+/**
+ * Groups projects by the technologies they use
+ * @param projects - Project entries, in the order they should be listed
+ * @returns TechnologyProjects[] - One group per distinct technology, most used first
+ */
+export function groupProjectsByTechnology(projects: Project[]): TechnologyProjects[] {
+  const groups = new Map<string, TechnologyProjects>();
+
+  projects.forEach(project => {
+    project.data.technologies.forEach(tech => {
+      const technology = getTechnologyDisplay(tech);
+      const publishDate = project.data.publishDate;
+      const group = groups.get(technology.id);
+
+      if (!group) {
+        groups.set(technology.id, {
+          technology,
+          projects: [project],
+          firstPublished: publishDate,
+          lastPublished: publishDate,
+        });
+      } else if (!group.projects.includes(project)) {
+        group.projects.push(project);
+        if (publishDate < group.firstPublished) group.firstPublished = publishDate;
+        if (publishDate > group.lastPublished) group.lastPublished = publishDate;
+      }
+    });
+  });
+
+  return Array.from(groups.values()).sort((a, b) => {
+    if (a.projects.length !== b.projects.length) {
+      return b.projects.length - a.projects.length;
+    }
+    return a.technology.name.localeCompare(b.technology.name);
+  });
+}
+
+/**
+ * Loads all projects grouped by technology
+ * @returns Promise<TechnologyProjects[]> - One group per distinct technology
+ */
+export async function getProjectsByTechnology(): Promise<TechnologyProjects[]> {
+  const projects = await getProjects();
+  return groupProjectsByTechnology(projects);
+}
+
+/**
+ * Gets the date the project content last changed
+ * Pages use it instead of the build time, so rebuilding unchanged content
+ * produces identical HTML (and no service worker update).
+ * @param projects - Projects shown on the page
+ * @returns Date | undefined - Newest updatedDate (or publishDate), undefined without projects
+ */
+export function getLatestProjectDate(projects: Project[]): Date | undefined {
+  return projects
+    .map(project => project.data.updatedDate ?? project.data.publishDate)
+    .reduce<Date | undefined>((latest, date) => (!latest || date > latest ? date : latest), undefined);
+}
+
+/**
+ * Ranks projects related to a given one by shared technologies and publish-date proximity.
+ * Shared technologies are weighted by rarity, so two projects sharing a niche API
+ * count as more related than two that both use TypeScript.
+ * @param project - The project to find related entries for
+ * @param projects - All candidate projects (the project itself is skipped)
+ * @param limit - Maximum number of results
+ * @returns RelatedProject[] - Projects sharing at least one technology, most related first
+ */
+export function getRelatedProjects(project: Project, projects: Project[], limit: number = 3): RelatedProject[] {
+  const technologyIds = (entry: Project) =>
+    new Set(entry.data.technologies.map(tech => getTechnologyDisplay(tech).id));
+
+  // How many projects use each technology
+  const usage = new Map<string, number>();
+  projects.forEach(entry => {
+    technologyIds(entry).forEach(id => usage.set(id, (usage.get(id) ?? 0) + 1));
+  });
+  const rarity = (id: string) => Math.log(1 + projects.length / (usage.get(id) ?? 1));
+
+  const ownIds = technologyIds(project);
+  const maxOverlap = Array.from(ownIds).reduce((sum, id) => sum + rarity(id), 0);
+  const names = new Map(
+    project.data.technologies.map(tech => getTechnologyDisplay(tech)).map(({ id, name }) => [id, name])
+  );
+
+  return projects
+    .filter(candidate => candidate.slug !== project.slug)
+    .map(candidate => {
+      const shared = Array.from(technologyIds(candidate))
+        .filter(id => ownIds.has(id))
+        .sort((a, b) => rarity(b) - rarity(a) || a.localeCompare(b));
+
+      const overlap = shared.reduce((sum, id) => sum + rarity(id), 0) / (maxOverlap || 1);
+      const monthsApart = Math.round(
+        Math.abs(candidate.data.publishDate.getTime() - project.data.publishDate.getTime()) / (1000 * 60 * 60 * 24 * 30.44)
+      );
+      const proximity = Math.pow(0.5, monthsApart / RELATED_DATE_HALF_LIFE_MONTHS);
+
+      return {
+        project: candidate,
+        score: (1 - RELATED_DATE_WEIGHT) * overlap + RELATED_DATE_WEIGHT * proximity,
+        sharedTechnologies: shared.map(id => names.get(id) ?? id),
+        monthsApart,
+      };
+    })
+    .filter(related => related.sharedTechnologies.length > 0)
+    .sort((a, b) => b.score - a.score || a.project.data.title.localeCompare(b.project.data.title))
+    .slice(0, limit);
+}
+
+/**
+ * Checks whether an experience entry is an ongoing position
+ * @param experience - The experience entry
+ * @returns boolean - True if the entry has no end date
+ */
+export function isCurrentExperience(experience: Experience): boolean {
+  return !experience.data.endDate;
+}
+
+/**
+ * Checks whether an experience entry should be listed: drafts only appear in `astro dev`
+ * @param experience - The experience entry
+ * @param includeDrafts - Whether draft entries are listed
+ * @returns boolean - True if the entry should be listed
+ */
+export function isVisibleExperience(experience: Experience, includeDrafts: boolean = import.meta.env.DEV): boolean {
+  return includeDrafts || !experience.data.draft;
+}
+
+/**
+ * Safely loads all work experience entries with error handling
+ * @returns Promise<Experience[]> - Current positions first, then newest to oldest
+ */
+export async function getExperience(): Promise<Experience[]> {
+  try {
+    const experience = await getCollection('experience', (entry) => isVisibleExperience(entry));
+
+    // Current jobs first, then by start date (newest first)
+    return experience.sort((a, b) => {
+      const currentA = isCurrentExperience(a);
+      const currentB = isCurrentExperience(b);
+      if (currentA !== currentB) {
+        return currentA ? -1 : 1;
+      }
+      return b.data.startDate.getTime() - a.data.startDate.getTime();
+    });
+
+  } catch (error) {
+    console.error('Error loading experience:', error);
+    return [];
+  }
+}
+
+/**
+ * Gets only ongoing positions
+ * @returns Promise<Experience[]> - Array of current experience entries
+ */
+export async function getCurrentExperience(): Promise<Experience[]> {
+  const experience = await getExperience();
+  return experience.filter(isCurrentExperience);
+}
+
+/**
+ * Loads the FAQ with the answers rendered to HTML
+ * The FAQ section and the FAQPage JSON-LD both use these items, so the visible
+ * answers and the structured data always match.
+ * @returns Promise<FaqItem[]> - Questions sorted by order, then alphabetically
+ */
+export async function getFaqItems(): Promise<FaqItem[]> {
+  try {
+    const faqs = await getCollection('faq');
+
+    return faqs
+      .sort((a, b) => a.data.order - b.data.order || a.data.question.localeCompare(b.data.question))
+      .map(faq => ({
+        slug: faq.slug,
+        question: faq.data.question,
+        answerHtml: faq.rendered?.html.trim() ?? '',
+      }));
+
+  } catch (error) {
+    console.error('Error loading FAQ:', error);
+    return [];
+  }
+}
+
+/**
+ * Checks whether a project technology refers to the given skill
+ * @param skill - The skill entry
+ * @param technology - A technology from project frontmatter
+ * @returns boolean - True if both resolve to the same registry technology
+ */
+export function skillMatchesTechnology(skill: Skill, technology: string): boolean {
+  return isSameTechnology(skill.data.name, technology);
+}
+
+/**
+ * Cross-links skills with the projects that use them
+ * @param skills - All skill entries
+ * @param projects - All project entries
+ * @returns SkillProjectMatch - Skills sorted by proficiency and years (skills without
+ *   them last), then by name, plus any project technologies that do not match a known skill
+ */
+export function matchSkillsToProjects(skills: Skill[], projects: Project[]): SkillProjectMatch {
+  const matched = skills.map(skill => ({
+    skill,
+    projects: projects.filter(project =>
+      project.data.technologies.some(tech => skillMatchesTechnology(skill, tech))
+    ),
+  }));
+
+  const unknownTechnologies = projects.flatMap(project =>
+    project.data.technologies
+      .filter(tech => !skills.some(skill => skillMatchesTechnology(skill, tech)))
+      .map(technology => ({ project, technology }))
+  );
+
+  matched.sort((a, b) => {
+    const rankOf = (skill: Skill) => (skill.data.proficiency ? PROFICIENCY_RANK[skill.data.proficiency] : 0);
+    const rankDiff = rankOf(b.skill) - rankOf(a.skill);
+    if (rankDiff !== 0) return rankDiff;
+    const yearsDiff = (b.skill.data.yearsOfExperience ?? 0) - (a.skill.data.yearsOfExperience ?? 0);
+    if (yearsDiff !== 0) return yearsDiff;
+    return a.skill.data.name.localeCompare(b.skill.data.name);
+  });
+
+  return { skills: matched, unknownTechnologies };
+}
+
+/**
+ * Loads all skills together with the projects that use them.
+ * Unlike the other loaders this does not swallow errors: a project technology
+ * that is not a known skill throws, so the build fails instead of silently
+ * rendering an incomplete skills section.
+ * @returns Promise<SkillWithProjects[]> - Skills sorted by proficiency
+ */
+export async function getSkillsWithProjects(): Promise<SkillWithProjects[]> {
+  const [skills, projects] = await Promise.all([getCollection('skills'), getProjects()]);
+  const { skills: matched, unknownTechnologies } = matchSkillsToProjects(skills, projects);
+
+  if (unknownTechnologies.length > 0) {
+    const details = unknownTechnologies
+      .map(({ project, technology }) => `"${technology}" (${project.slug})`)
+      .join(', ');
+    throw new Error(`Unknown project technologies - add them to src/content/skills: ${details}`);
+  }
+
+  return matched;
+}
+
 /**
  * Validates project data structure
  * @param project - The project to validate
@@ -0,0 +1,271 @@
+/**
+ * Responsive image pipeline
+ * Resizes the raster images in public/images into AVIF and WebP variants at the
+ * breakpoints in assetOptimization.images, next to their source. Sources whose
+ * content (and settings) did not change since the last run are skipped, and
+ * src/data/image-manifest.json records which variants actually exist, along with
+ * a tiny blur-up placeholder for each source.
+ */
+
+import fs from 'node:fs';
+import path from 'node:path';
+import { createHash } from 'node:crypto';
+import sharp from 'sharp';
+import { assetOptimization } from './build-optimization';
+
+export type ImageFormat = 'avif' | 'webp';
+
+export interface ImageVariant {
+  format: ImageFormat;
+  width: number;
+  height: number;
+  /** Root-relative URL without the deploy base, e.g. "/images/projects/animet-640w.avif" */
+  src: string;
+  /** File size in bytes */
+  bytes: number;
+}
+
+/** Shown behind an image until it has loaded */
+export interface ImagePlaceholder {
+  /** Dominant color, e.g. "#1f2937" */
+  color: string;
+  /** Tiny WebP preview as a data URI, blurred by upscaling */
+  src: string;
+}
+
+export interface ImageManifestEntry {
+  /** Hash of the source contents and the settings it was processed with */
+  hash: string;
+  width: number;
+  height: number;
+  variants: ImageVariant[];
+  placeholder: ImagePlaceholder;
+}
+
+/** Keyed by the source's root-relative URL, e.g. "/images/projects/animet.png" */
+export type ImageManifest = Record<string, ImageManifestEntry>;
+
+export type ImageSettings = Pick<typeof assetOptimization.images, 'breakpoints' | 'avif' | 'webp'>;
+
+export interface ImagePipelineOptions {
+  /** Absolute path of the public directory */
+  publicDir: string;
+  /** Absolute path of the manifest JSON */
+  manifestPath: string;
+  settings?: ImageSettings;
+}
+
+export interface ImagePipelineResult {
+  manifest: ImageManifest;
+  /** Sources that were (re)generated */
+  processed: string[];
+  /** Sources whose variants were already up to date */
+  skipped: string[];
+  /** Variant files removed because their source changed or disappeared */
+  removed: string[];
+}
+
+export const IMAGE_FORMATS: ImageFormat[] = ['avif', 'webp'];
+
+/** Sources are looked up in this public subdirectory */
+export const IMAGE_SOURCE_DIR = 'images';
+
+const SOURCE_EXTENSION = /\.(png|jpe?g)$/i;
+
+/** Placeholder preview width; a few hundred bytes once base64 encoded */
+const PLACEHOLDER_WIDTH = 16;
+
+const defaultSettings = (): ImageSettings => ({
+  breakpoints: assetOptimization.images.breakpoints,
+  avif: assetOptimization.images.avif,
+  webp: assetOptimization.images.webp,
+});
+
+/**
+ * Hashes a source together with the settings it is processed with
+ * @param content - Source file contents
+ * @param settings - Breakpoints and encoder settings
+ * @returns string - Short hex digest
+ */
+export function hashSource(content: Uint8Array, settings: ImageSettings): string {
+  return createHash('sha256')
+    .update(content)
+    .update(JSON.stringify(settings))
+    .digest('hex')
+    .slice(0, 16);
+}
+
+/**
+ * Picks the variant widths for a source, never upscaling
+ * @param sourceWidth - Intrinsic width of the source
+ * @param breakpoints - Configured breakpoints
+ * @returns number[] - Breakpoints up to the source width, or the source width if it is smaller than all of them
+ */
+export function getVariantWidths(sourceWidth: number, breakpoints: number[]): number[] {
+  const widths = breakpoints.filter(width => width <= sourceWidth);
+  return widths.length > 0 ? widths : [sourceWidth];
+}
+
+/**
+ * Builds the URL of a variant
+ * @param src - Source URL, e.g. "/images/projects/animet.png"
+ * @param width - Variant width
+ * @param format - Variant format
+ * @returns string - e.g. "/images/projects/animet-640w.avif"
+ */
+export function getVariantSrc(src: string, width: number, format: ImageFormat): string {
+  return `${src.replace(/\.[^./]+$/, '')}-${width}w.${format}`;
+}
+
+const toHex = (value: number) => value.toString(16).padStart(2, '0');
+
+/**
+ * Extracts the blur-up placeholder of an image
+ * @param input - Image path or contents
+ * @returns Promise<ImagePlaceholder> - Dominant color and a tiny preview
+ */
+export async function createPlaceholder(input: string | Buffer): Promise<ImagePlaceholder> {
+  const { dominant } = await sharp(input).stats();
+  const preview = await sharp(input)
+    .resize({ width: PLACEHOLDER_WIDTH })
+    .webp({ quality: 50 })
+    .toBuffer();
+
+  return {
+    color: `#${toHex(dominant.r)}${toHex(dominant.g)}${toHex(dominant.b)}`,
+    src: `data:image/webp;base64,${preview.toString('base64')}`,
+  };
+}
+
+const listSources = (dir: string): string[] =>
+  !fs.existsSync(dir)
+    ? []
+    : fs.readdirSync(dir, { withFileTypes: true }).flatMap(entry => {
+        const fullPath = path.join(dir, entry.name);
+        if (entry.isDirectory()) return listSources(fullPath);
+        return SOURCE_EXTENSION.test(entry.name) ? [fullPath] : [];
+      });
+
+const toFilePath = (publicDir: string, src: string) => path.join(publicDir, ...src.split('/'));
+
+/** Directories pages read source images from, as configured in Astro */
+export interface ProjectDirs {
+  /** Absolute project root */
+  root: string;
+  /** Absolute public directory */
+  publicDir: string;
+}
+
+/**
+ * Gets the configured project directories
+ * The image pipeline integration passes Astro's root and publicDir to pages, so
+ * sources resolve wherever the build is started from. Outside an Astro build
+ * (e.g. in tests) they default to the working directory.
+ * @returns ProjectDirs - Absolute project root and public directory
+ */
+export function getProjectDirs(): ProjectDirs {
+  const configured: string | undefined = import.meta.env.PROJECT_DIRS;
+  if (configured) return JSON.parse(configured);
+
+  const root = process.cwd();
+  return { root, publicDir: path.join(root, 'public') };
+}
+
+/**
+ * Resolves a public URL to its source file
+ * @param src - Root-relative URL, e.g. "/images/projects/animet.png"
+ * @returns string - Absolute path inside the configured public directory
+ */
+export function getPublicFilePath(src: string): string {
+  return toFilePath(getProjectDirs().publicDir, src);
+}
+
+const isUpToDate = (entry: ImageManifestEntry | undefined, hash: string, publicDir: string) =>
+  entry?.hash === hash && entry.variants.every(variant => fs.existsSync(toFilePath(publicDir, variant.src)));
+
+/**
+ * Reads the manifest written by the previous run
+ * @param manifestPath - Absolute path of the manifest JSON
+ * @returns ImageManifest - Empty when there is no (readable) manifest yet
+ */
+export function readImageManifest(manifestPath: string): ImageManifest {
+  try {
+    return JSON.parse(fs.readFileSync(manifestPath, 'utf-8')) as ImageManifest;
+  } catch {
+    return {};
+  }
+}
+
+async function generateVariants(
+  sourcePath: string,
+  src: string,
+  hash: string,
+  settings: ImageSettings,
+  publicDir: string
+): Promise<ImageManifestEntry> {
+  const { width = 0, height = 0 } = await sharp(sourcePath).metadata();
+  const variants: ImageVariant[] = [];
+
+  for (const variantWidth of getVariantWidths(width, settings.breakpoints)) {
+    for (const format of IMAGE_FORMATS) {
+      const variantSrc = getVariantSrc(src, variantWidth, format);
+      const resized = sharp(sourcePath).resize({ width: variantWidth, withoutEnlargement: true });
+      const encoded = format === 'avif' ? resized.avif(settings.avif) : resized.webp(settings.webp);
+      const info = await encoded.toFile(toFilePath(publicDir, variantSrc));
+
+      variants.push({ format, width: info.width, height: info.height, src: variantSrc, bytes: info.size });
+    }
+  }
+
+  return { hash, width, height, variants, placeholder: await createPlaceholder(sourcePath) };
+}
+
+/**
+ * Runs the pipeline
+ * @param options - Directories and settings
+ * @returns Promise<ImagePipelineResult> - The new manifest and what changed
+ */
+export async function optimizeImages(options: ImagePipelineOptions): Promise<ImagePipelineResult> {
+  const { publicDir, manifestPath, settings = defaultSettings() } = options;
+  const previous = readImageManifest(manifestPath);
+  const manifest: ImageManifest = {};
+  const result: ImagePipelineResult = { manifest, processed: [], skipped: [], removed: [] };
+
+  const sources = listSources(path.join(publicDir, IMAGE_SOURCE_DIR))
+    .map(sourcePath => ({ sourcePath, src: `/${path.relative(publicDir, sourcePath).split(path.sep).join('/')}` }))
+    .sort((a, b) => a.src.localeCompare(b.src));
+
+  for (const { sourcePath, src } of sources) {
+    const hash = hashSource(fs.readFileSync(sourcePath), settings);
+
+    if (isUpToDate(previous[src], hash, publicDir)) {
+      // Entries written before placeholders existed only need the placeholder
+      manifest[src] = previous[src].placeholder
+        ? previous[src]
+        : { ...previous[src], placeholder: await createPlaceholder(sourcePath) };
+      result.skipped.push(src);
+    } else {
+      manifest[src] = await generateVariants(sourcePath, src, hash, settings, publicDir);
+      result.processed.push(src);
+    }
+  }
+
+  // Variants that belong to an old version of a source, or to a deleted one
+  const current = new Set(Object.values(manifest).flatMap(entry => entry.variants.map(variant => variant.src)));
+  Object.values(previous)
+    .flatMap(entry => entry.variants)
+    .filter(variant => !current.has(variant.src))
+    .forEach(variant => {
+      fs.rmSync(toFilePath(publicDir, variant.src), { force: true });
+      result.removed.push(variant.src);
+    });
+
+  // Only touch the manifest when something changed, so cached runs leave the tree as it was
+  const serialized = `${JSON.stringify(manifest, null, 2)}\n`;
+  if (!fs.existsSync(manifestPath) || fs.readFileSync(manifestPath, 'utf-8') !== serialized) {
+    fs.mkdirSync(path.dirname(manifestPath), { recursive: true });
+    fs.writeFileSync(manifestPath, serialized);
+  }
+
+  return result;
+}
@@ -0,0 +1,89 @@
+/**
+ * Responsive image sources
+ * Turns an image path into <picture> sources using the variants the image
+ * pipeline actually generated (src/data/image-manifest.json), so markup never
+ * points at files that do not exist.
+ */
+
+import imageManifest from '../data/image-manifest.json';
+import type { ImageFormat, ImageManifest, ImagePlaceholder } from './image-pipeline';
+import { withBase } from './url';
+
+export interface ImageSource {
+  type: `image/${ImageFormat}`;
+  srcset: string;
+}
+
+export interface ResolvedImage {
+  /** Fallback src, base-prefixed for local images */
+  src: string;
+  /** Intrinsic size, known for images the pipeline processed */
+  width?: number;
+  height?: number;
+  /** One entry per format, in the order browsers should try them */
+  sources: ImageSource[];
+  /** Blur-up preview shown until the image has loaded */
+  placeholder?: ImagePlaceholder;
+}
+
+const defaultManifest = imageManifest as ImageManifest;
+
+const LOCAL_RASTER_IMAGE = /^\/[^?#]*\.(png|jpe?g)$/i;
+
+/**
+ * Checks whether an image should have pipeline variants but has none
+ * Only local PNG/JPEG files are processed; SVGs and external URLs are used as they are.
+ * @param src - Root-relative image path, e.g. "/images/projects/animet.png"
+ * @param manifest - Variant manifest (defaults to the generated one)
+ * @returns boolean - True when the variants are missing
+ */
+export function isMissingVariants(src: string, manifest: ImageManifest = defaultManifest): boolean {
+  return LOCAL_RASTER_IMAGE.test(src) && !manifest[src]?.variants.length;
+}
+
+/**
+ * Resolves the sources of a responsive image
+ * @param src - Root-relative image path or external URL
+ * @param manifest - Variant manifest (defaults to the generated one)
+ * @returns ResolvedImage - Fallback src, intrinsic size and per-format srcsets
+ */
+export function resolveImage(src: string, manifest: ImageManifest = defaultManifest): ResolvedImage {
+  const entry = manifest[src];
+  const fallback = src.startsWith('/') ? withBase(src) : src;
+
+  if (!entry) {
+    return { src: fallback, sources: [] };
+  }
+
+  // The pipeline writes variants smallest first, preferred format first
+  const srcsets = new Map<ImageFormat, string[]>();
+  entry.variants.forEach(variant => {
+    const candidates = srcsets.get(variant.format) ?? [];
+    candidates.push(`${withBase(variant.src)} ${variant.width}w`);
+    srcsets.set(variant.format, candidates);
+  });
+
+  return {
+    src: fallback,
+    width: entry.width,
+    height: entry.height,
+    placeholder: entry.placeholder,
+    sources: [...srcsets].map(([format, candidates]) => ({
+      type: `image/${format}` as const,
+      srcset: candidates.join(', '),
+    })),
+  };
+}
+
+/**
+ * Inline style that paints a placeholder behind an image
+ * Used together with the data-lqip attribute (see global.css), which drops the
+ * placeholder once the image has loaded.
+ * @param placeholder - Placeholder from the manifest, if any
+ * @returns string | undefined - Custom properties for the style attribute
+ */
+export function getPlaceholderStyle(placeholder?: ImagePlaceholder): string | undefined {
+  return placeholder
+    ? `--lqip-color: ${placeholder.color}; --lqip-image: url("${placeholder.src}")`
+    : undefined;
+}
@@ -0,0 +1,23 @@
+/**
+ * Offline utilities
+ * Client helpers for the online/offline indicator.
+ */
+
+/**
+ * Reports the connection state now and whenever it changes
+ * @param callback - Called with true when online, false when offline
+ * @returns () => void - Stops watching
+ */
+export function watchConnection(callback: (online: boolean) => void): () => void {
+  const notifyOnline = () => callback(true);
+  const notifyOffline = () => callback(false);
+
+  window.addEventListener('online', notifyOnline);
+  window.addEventListener('offline', notifyOffline);
+  callback(navigator.onLine);
+
+  return () => {
+    window.removeEventListener('online', notifyOnline);
+    window.removeEventListener('offline', notifyOffline);
+  };
+}
@@ -0,0 +1,189 @@
+/**
+ * Open Graph images
+ * Renders the 1200x630 PNG cards shared on social networks, many of which do not
+ * display SVG. The card is composed as SVG and rasterized with sharp, using the
+ * fonts installed on the build machine, so nothing is fetched over the network.
+ */
+
+import fs from 'node:fs';
+import sharp from 'sharp';
+import { siteConfig } from '../config/site';
+
+export interface OgCard {
+  /** Small heading above the title, defaults to the site owner's name */
+  eyebrow?: string;
+  title: string;
+  description: string;
+  /** Shown as badges, as many as fit on one row */
+  technologies: string[];
+  /** Absolute path of a local image shown on the right, if any */
+  thumbnail?: string;
+  /** Site shown in the footer, defaults to the host of siteConfig.url */
+  site?: string;
+}
+
+/** Thumbnail after it has been resized for the card */
+export interface OgThumbnail {
+  /** Data URI */
+  src: string;
+  width: number;
+  height: number;
+}
+
+export const OG_IMAGE_WIDTH = 1200;
+export const OG_IMAGE_HEIGHT = 630;
+
+/** Cards are served from this directory */
+export const OG_IMAGE_DIR = 'og';
+
+const PADDING = 72;
+const COLUMN_GAP = 56;
+
+/** Box the thumbnail is fitted into, keeping its aspect ratio */
+const THUMBNAIL_BOX = { width: 440, height: 380 };
+
+/**
+ * Approximate glyph widths in em for the default sans-serif font. SVG text cannot
+ * be measured before rendering, so wrapping works on character counts.
+ */
+const CHAR_WIDTH = { regular: 0.55, bold: 0.68 };
+
+const TITLE = { size: 60, lineHeight: 72, maxLines: 2 };
+const DESCRIPTION = { size: 28, lineHeight: 40, maxLines: 3 };
+const BADGE = { size: 22, height: 44, paddingX: 20, gap: 12 };
+
+/**
+ * Gets the root-relative path of a card
+ * @param slug - Project slug, or nothing for the home page card
+ * @returns string - e.g. "/og/projects/animet.png" (without the deploy base)
+ */
+export function getOgImagePath(slug?: string): string {
+  return slug ? `/${OG_IMAGE_DIR}/projects/${slug}.png` : `/${OG_IMAGE_DIR}/home.png`;
+}
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/**
+ * Wraps text into lines of at most maxChars characters
+ * Words longer than a line are cut, and text that does not fit in maxLines ends with an ellipsis.
+ * @param text - Text to wrap
+ * @param maxChars - Characters per line
+ * @param maxLines - Maximum number of lines
+ * @returns string[] - The lines
+ */
+export function wrapText(text: string, maxChars: number, maxLines: number): string[] {
+  const lines: string[] = [];
+  let current = '';
+
+  for (const word of text.trim().split(/\s+/).filter(Boolean)) {
+    const candidate = current ? `${current} ${word}` : word;
+    if (candidate.length <= maxChars) {
+      current = candidate;
+      continue;
+    }
+    if (current) lines.push(current);
+    current = word.length > maxChars ? word.slice(0, maxChars) : word;
+  }
+  if (current) lines.push(current);
+
+  if (lines.length <= maxLines) return lines;
+
+  const kept = lines.slice(0, maxLines);
+  const last = kept[maxLines - 1];
+  kept[maxLines - 1] = `${last.length < maxChars ? last : last.slice(0, maxChars - 1).trimEnd()}…`;
+  return kept;
+}
+
+const fitChars = (width: number, fontSize: number, charWidth: number) => Math.floor(width / (fontSize * charWidth));
+
+const renderLines = (lines: string[], x: number, y: number, lineHeight: number, attributes: string) =>
+  lines
+    .map((line, index) => `<text x="${x}" y="${y + index * lineHeight}" ${attributes}>${escapeXml(line)}</text>`)
+    .join('');
+
+function renderBadges(technologies: string[], x: number, y: number, maxWidth: number): string {
+  const badges: string[] = [];
+  let offset = 0;
+
+  for (const technology of technologies) {
+    const width = Math.ceil(technology.length * BADGE.size * CHAR_WIDTH.regular) + BADGE.paddingX * 2;
+    if (offset + width > maxWidth) break;
+
+    badges.push(
+      `<rect x="${x + offset}" y="${y}" width="${width}" height="${BADGE.height}" rx="${BADGE.height / 2}" fill="#ffffff" fill-opacity="0.12"/>`,
+      `<text x="${x + offset + width / 2}" y="${y + BADGE.height / 2 + BADGE.size * 0.35}" text-anchor="middle" font-size="${BADGE.size}" fill="#e2e8f0">${escapeXml(technology)}</text>`
+    );
+    offset += width + BADGE.gap;
+  }
+
+  return badges.join('');
+}
+
+/**
+ * Composes a card
+ * @param card - Card contents
+ * @param thumbnail - Resized thumbnail, if the card has one
+ * @returns string - SVG document sized to the card
+ */
+export function composeOgImageSvg(card: OgCard, thumbnail?: OgThumbnail): string {
+  const columnWidth = thumbnail
+    ? OG_IMAGE_WIDTH - PADDING * 2 - THUMBNAIL_BOX.width - COLUMN_GAP
+    : OG_IMAGE_WIDTH - PADDING * 2;
+
+  const titleLines = wrapText(card.title, fitChars(columnWidth, TITLE.size, CHAR_WIDTH.bold), TITLE.maxLines);
+  const descriptionLines = wrapText(
+    card.description,
+    fitChars(columnWidth, DESCRIPTION.size, CHAR_WIDTH.regular),
+    DESCRIPTION.maxLines
+  );
+
+  const titleY = 200;
+  const descriptionY = titleY + (titleLines.length - 1) * TITLE.lineHeight + 64;
+  const badgesY = OG_IMAGE_HEIGHT - PADDING - BADGE.height - 56;
+
+  const image = thumbnail
+    ? (() => {
+        const x = OG_IMAGE_WIDTH - PADDING - THUMBNAIL_BOX.width + (THUMBNAIL_BOX.width - thumbnail.width) / 2;
+        const y = (OG_IMAGE_HEIGHT - thumbnail.height) / 2;
+        return [
+          `<clipPath id="thumbnail"><rect x="${x}" y="${y}" width="${thumbnail.width}" height="${thumbnail.height}" rx="24"/></clipPath>`,
+          `<image x="${x}" y="${y}" width="${thumbnail.width}" height="${thumbnail.height}" href="${thumbnail.src}" clip-path="url(#thumbnail)"/>`,
+        ].join('');
+      })()
+    : '';
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${OG_IMAGE_WIDTH}" height="${OG_IMAGE_HEIGHT}" viewBox="0 0 ${OG_IMAGE_WIDTH} ${OG_IMAGE_HEIGHT}" font-family="sans-serif">`,
+    '<defs><linearGradient id="background" x1="0" y1="0" x2="1" y2="1">',
+    `<stop offset="0" stop-color="${siteConfig.theme.themeColor}"/><stop offset="1" stop-color="#0f172a"/>`,
+    '</linearGradient></defs>',
+    `<rect width="${OG_IMAGE_WIDTH}" height="${OG_IMAGE_HEIGHT}" fill="url(#background)"/>`,
+    `<text x="${PADDING}" y="${PADDING + 28}" font-size="26" font-weight="700" fill="#94a3b8">${escapeXml(card.eyebrow ?? siteConfig.name)}</text>`,
+    renderLines(titleLines, PADDING, titleY, TITLE.lineHeight, `font-size="${TITLE.size}" font-weight="700" fill="#ffffff"`),
+    renderLines(descriptionLines, PADDING, descriptionY, DESCRIPTION.lineHeight, `font-size="${DESCRIPTION.size}" fill="#cbd5e1"`),
+    renderBadges(card.technologies, PADDING, badgesY, columnWidth),
+    `<text x="${PADDING}" y="${OG_IMAGE_HEIGHT - PADDING + 8}" font-size="22" fill="#94a3b8">${escapeXml(card.site ?? new URL(siteConfig.url).host)}</text>`,
+    image,
+    '</svg>',
+  ].join('');
+}
+
+async function loadThumbnail(file: string): Promise<OgThumbnail> {
+  const { data, info } = await sharp(fs.readFileSync(file))
+    .resize({ ...THUMBNAIL_BOX, fit: 'inside' })
+    .png()
+    .toBuffer({ resolveWithObject: true });
+
+  return { src: `data:image/png;base64,${data.toString('base64')}`, width: info.width, height: info.height };
+}
+
+/**
+ * Renders a card to PNG
+ * @param card - Card contents
+ * @returns Promise<Buffer> - 1200x630 PNG
+ */
+export async function renderOgImage(card: OgCard): Promise<Buffer> {
+  const thumbnail = card.thumbnail ? await loadThumbnail(card.thumbnail) : undefined;
+  return sharp(Buffer.from(composeOgImageSvg(card, thumbnail))).png().toBuffer();
+}
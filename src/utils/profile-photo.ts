@@ -0,0 +1,25 @@
+/**
+ * Profile photo
+ * Imported from a single path, so pages get both the optimized image and the
+ * source file (for the blur-up placeholder and the Open Graph card).
+ */
+
+import path from 'node:path';
+import type { ImageMetadata } from 'astro';
+import { getProjectDirs } from './image-pipeline';
+
+// A root-relative glob keys the import by its path from the project root
+const [[sourcePath, photo]] = Object.entries(
+  import.meta.glob<ImageMetadata>('/src/assets/images/profile/linkedin-avatar.png', { eager: true, import: 'default' })
+);
+
+/** Optimized photo, for <img> tags and structured data */
+export const profilePhoto = photo;
+
+/**
+ * Gets the source file of the profile photo
+ * @returns string - Absolute path inside the configured project root
+ */
+export function getProfilePhotoPath(): string {
+  return path.join(getProjectDirs().root, ...sourcePath.split('/'));
+}
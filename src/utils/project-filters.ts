@@ -0,0 +1,81 @@
+/**
+ * Technology filter helpers shared by the projects gallery
+ * Used at build time (chip list) and in the client scripts (matching)
+ */
+
+import { getTechnologyDisplay, type TechnologyDisplay } from './technologies';
+
+export type FilterMatchMode = 'and' | 'or';
+
+export interface FilterOption extends TechnologyDisplay {
+  /** Number of projects using this technology */
+  count: number;
+}
+
+/**
+ * Builds the filter chip list from the union of project technologies
+ * @param technologyLists - The technologies of each project
+ * @returns FilterOption[] - One option per distinct technology, most used first
+ */
+export function getFilterOptions(technologyLists: string[][]): FilterOption[] {
+  const options = new Map<string, FilterOption>();
+
+  technologyLists.forEach(technologies => {
+    const seen = new Set<string>();
+    technologies.forEach(tech => {
+      const display = getTechnologyDisplay(tech);
+      if (seen.has(display.id)) return;
+      seen.add(display.id);
+
+      const option = options.get(display.id);
+      if (option) {
+        option.count++;
+      } else {
+        options.set(display.id, { ...display, count: 1 });
+      }
+    });
+  });
+
+  return Array.from(options.values()).sort((a, b) => {
+    if (a.count !== b.count) return b.count - a.count;
+    return a.name.localeCompare(b.name);
+  });
+}
+
+/**
+ * Gets the filter ids for a project's technologies
+ * @param technologies - Technology names from project frontmatter
+ * @returns string[] - Registry ids, as used by filter chips
+ */
+export function getTechnologyFilterIds(technologies: string[]): string[] {
+  return technologies.map(tech => getTechnologyDisplay(tech).id);
+}
+
+/**
+ * Checks whether a project passes the selected technology filters
+ * @param projectTechIds - Filter ids of the project's technologies
+ * @param selected - Filter ids of the selected chips
+ * @param mode - 'and' requires every selected technology, 'or' any of them
+ * @returns boolean - True if the project should be shown
+ */
+export function matchesTechnologyFilter(
+  projectTechIds: string[],
+  selected: string[],
+  mode: FilterMatchMode = 'or'
+): boolean {
+  if (selected.length === 0) return true;
+
+  return mode === 'and'
+    ? selected.every(id => projectTechIds.includes(id))
+    : selected.some(id => projectTechIds.includes(id));
+}
+
+/**
+ * Formats the result count announced in the gallery live region
+ */
+export function formatResultCount(visible: number, total: number): string {
+  if (visible === total) {
+    return `Showing all ${total} ${total === 1 ? 'project' : 'projects'}`;
+  }
+  return `Showing ${visible} of ${total} ${total === 1 ? 'project' : 'projects'}`;
+}
@@ -0,0 +1,162 @@
+/**
+ * Project ordering engine
+ * Every project list sorts through these named strategies, both at build time
+ * (collection entries) and in client scripts (grid items read from data attributes),
+ * so the static HTML and client re-sorts always agree.
+ */
+
+import type { Project } from './content';
+
+export type OrderStrategy = 'featured' | 'timeline' | 'alphabetical' | 'recently-updated' | 'manual';
+
+/** Single comparison rule; strategies are chains of these */
+export type OrderKey = 'featured' | 'order' | 'newest' | 'oldest' | 'updated' | 'title';
+
+/** The fields ordering needs, independent of where a project comes from */
+export interface OrderFields {
+  title: string;
+  featured: boolean;
+  /** Manual position from frontmatter, lower first */
+  order: number;
+  /** Timestamps in milliseconds */
+  publishDate: number;
+  updatedDate: number;
+}
+
+/** Element exposing the data-* attributes written by getOrderDataAttributes */
+export interface OrderableElement {
+  dataset: Record<string, string | undefined>;
+}
+
+const comparators: Record<OrderKey, (a: OrderFields, b: OrderFields) => number> = {
+  featured: (a, b) => Number(b.featured) - Number(a.featured),
+  order: (a, b) => a.order - b.order,
+  newest: (a, b) => b.publishDate - a.publishDate,
+  oldest: (a, b) => a.publishDate - b.publishDate,
+  updated: (a, b) => b.updatedDate - a.updatedDate,
+  title: (a, b) => a.title.localeCompare(b.title),
+};
+
+/**
+ * Comparison chain for each strategy. Later keys only break ties of earlier ones;
+ * every chain ends in keys that make the order deterministic.
+ */
+export const ORDER_STRATEGIES: Record<OrderStrategy, OrderKey[]> = {
+  featured: ['featured', 'order', 'newest', 'title'],
+  timeline: ['newest', 'title'],
+  alphabetical: ['title', 'newest'],
+  'recently-updated': ['updated', 'newest', 'title'],
+  manual: ['order', 'newest', 'title'],
+};
+
+/**
+ * Checks whether a value (e.g. from localStorage) names a known strategy
+ */
+export function isOrderStrategy(value: unknown): value is OrderStrategy {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(ORDER_STRATEGIES, value);
+}
+
+/**
+ * Compares two projects with a strategy
+ * @param a - First project's fields
+ * @param b - Second project's fields
+ * @param strategy - Named strategy
+ * @param tieBreakers - Extra keys applied after the strategy's own chain
+ * @returns number - Negative if a comes first, positive if b does, 0 if equal
+ */
+export function compareByStrategy(
+  a: OrderFields,
+  b: OrderFields,
+  strategy: OrderStrategy,
+  tieBreakers: OrderKey[] = []
+): number {
+  for (const key of [...ORDER_STRATEGIES[strategy], ...tieBreakers]) {
+    const result = comparators[key](a, b);
+    if (result !== 0) return result;
+  }
+  return 0;
+}
+
+/**
+ * Sorts any list of items with a strategy, without mutating it
+ * @param items - Items to sort
+ * @param strategy - Named strategy
+ * @param getFields - Reads the ordering fields of an item
+ * @param tieBreakers - Extra keys applied after the strategy's own chain
+ * @returns T[] - A new, sorted array
+ */
+export function sortByStrategy<T>(
+  items: T[],
+  strategy: OrderStrategy,
+  getFields: (item: T) => OrderFields,
+  tieBreakers: OrderKey[] = []
+): T[] {
+  return items
+    .map(item => ({ item, fields: getFields(item) }))
+    .sort((a, b) => compareByStrategy(a.fields, b.fields, strategy, tieBreakers))
+    .map(({ item }) => item);
+}
+
+/**
+ * Gets the ordering fields of a collection entry
+ * @param project - Project entry
+ * @returns OrderFields - Fields with dates as timestamps
+ */
+export function getProjectOrderFields(project: Project): OrderFields {
+  const { title, featured, order, publishDate, updatedDate } = project.data;
+  return {
+    title,
+    featured,
+    order,
+    publishDate: publishDate.getTime(),
+    updatedDate: (updatedDate ?? publishDate).getTime(),
+  };
+}
+
+/**
+ * Sorts project entries at build time
+ * @param projects - Project entries
+ * @param strategy - Named strategy
+ * @param tieBreakers - Extra keys applied after the strategy's own chain
+ * @returns Project[] - A new, sorted array
+ */
+export function sortProjects(
+  projects: Project[],
+  strategy: OrderStrategy,
+  tieBreakers: OrderKey[] = []
+): Project[] {
+  return sortByStrategy(projects, strategy, getProjectOrderFields, tieBreakers);
+}
+
+/**
+ * Serializes a project's ordering fields as data-* attributes for client re-sorts
+ * @param project - Project entry
+ * @returns Record<string, string> - Attributes to spread on the grid item
+ */
+export function getOrderDataAttributes(project: Project): Record<string, string> {
+  const fields = getProjectOrderFields(project);
+  return {
+    'data-title': fields.title,
+    'data-featured': String(fields.featured),
+    'data-order': String(fields.order),
+    'data-date': String(fields.publishDate),
+    'data-updated': String(fields.updatedDate),
+  };
+}
+
+/**
+ * Reads ordering fields back from an element rendered with getOrderDataAttributes
+ * @param element - Grid item element
+ * @returns OrderFields - Fields for compareByStrategy/sortByStrategy
+ */
+export function getElementOrderFields(element: OrderableElement): OrderFields {
+  const { title = '', featured, order, date, updated } = element.dataset;
+  const publishDate = Number(date) || 0;
+  return {
+    title,
+    featured: featured === 'true',
+    order: Number(order) || 0,
+    publishDate,
+    updatedDate: Number(updated) || publishDate,
+  };
+}
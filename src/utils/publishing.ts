@@ -0,0 +1,20 @@
+/**
+ * Publishing rule
+ * Decides whether a project is live. Kept apart from utils/content.ts, which
+ * needs astro:content, so the sitemap (built from astro.config.mjs) applies the same rule.
+ */
+
+import type { Project } from './content';
+
+/** The frontmatter the publishing rule reads */
+export type PublishingFields = Pick<Project['data'], 'draft' | 'publishDate'>;
+
+/**
+ * Checks whether a project is published: not a draft and not scheduled for later
+ * @param project - Project entry, or anything with its draft and publishDate fields
+ * @param now - Reference date (defaults to the build time)
+ * @returns boolean - True if the project can appear in production
+ */
+export function isPublished(project: { data: PublishingFields }, now: Date = new Date()): boolean {
+  return !project.data.draft && project.data.publishDate.getTime() <= now.getTime();
+}
@@ -0,0 +1,126 @@
+/**
+ * PWA assets
+ * Icon specs, icon composition and the web app manifest. The icons are rasterized
+ * from public/favicon.svg at build time (see src/integrations/pwa.ts), so the
+ * favicon stays the only icon source in the repo.
+ */
+
+import { siteConfig } from '../config/site';
+import { withBase } from './url';
+
+export interface PwaIcon {
+  /** Output path relative to dist */
+  file: string;
+  size: number;
+  /** "apple" icons are linked from the page instead of the manifest */
+  purpose: 'any' | 'maskable' | 'apple';
+}
+
+export const PWA_ICONS: PwaIcon[] = [
+  { file: 'icons/icon-192.png', size: 192, purpose: 'any' },
+  { file: 'icons/icon-512.png', size: 512, purpose: 'any' },
+  { file: 'icons/icon-maskable-192.png', size: 192, purpose: 'maskable' },
+  { file: 'icons/icon-maskable-512.png', size: 512, purpose: 'maskable' },
+  { file: 'icons/apple-touch-icon.png', size: 180, purpose: 'apple' },
+];
+
+export const APPLE_TOUCH_ICON = PWA_ICONS.find(icon => icon.purpose === 'apple')!;
+
+export const MANIFEST_FILE = 'manifest.webmanifest';
+
+/** Glyph color drawn on top of the theme color */
+const ICON_FOREGROUND = '#ffffff';
+
+/**
+ * Share of the icon the glyph may cover. Maskable icons keep the glyph inside the
+ * 80% safe zone that launchers never crop; apple icons are rounded by iOS.
+ */
+const GLYPH_SCALE: Record<PwaIcon['purpose'], number> = {
+  any: 0.7,
+  maskable: 0.55,
+  apple: 0.65,
+};
+
+/**
+ * Composes an icon from the favicon: the glyph, recolored and centered on the theme color
+ * "any" icons get rounded corners, maskable and apple icons are full-bleed squares.
+ * @param faviconSvg - Contents of public/favicon.svg
+ * @param icon - Icon to compose
+ * @param background - Background color, defaults to the theme color
+ * @returns string - SVG document sized to the icon
+ */
+export function composeIconSvg(
+  faviconSvg: string,
+  icon: PwaIcon,
+  background: string = siteConfig.theme.themeColor
+): string {
+  const root = faviconSvg.match(/<svg\b[^>]*>/);
+  const viewBox = root?.[0].match(/viewBox="([^"]+)"/)?.[1];
+  if (!root || !viewBox) {
+    throw new Error('favicon.svg needs a root <svg> element with a viewBox');
+  }
+
+  // Drop the favicon's own (color-scheme dependent) styles and paint the glyph in one color
+  const glyph = faviconSvg
+    .slice(root.index! + root[0].length, faviconSvg.lastIndexOf('</svg>'))
+    .replace(/<style[\s\S]*?<\/style>/g, '')
+    .trim();
+
+  const { size } = icon;
+  const glyphSize = Math.round(size * GLYPH_SCALE[icon.purpose]);
+  const offset = Math.round((size - glyphSize) / 2);
+  const radius = icon.purpose === 'any' ? Math.round(size * 0.2) : 0;
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${size}" height="${size}" viewBox="0 0 ${size} ${size}">`,
+    `<rect width="${size}" height="${size}" rx="${radius}" fill="${background}"/>`,
+    `<svg x="${offset}" y="${offset}" width="${glyphSize}" height="${glyphSize}" viewBox="${viewBox}" fill="${ICON_FOREGROUND}">`,
+    glyph,
+    '</svg>',
+    '</svg>',
+  ].join('');
+}
+
+/**
+ * Builds the web app manifest from the site config
+ * @param base - Deploy base, defaults to the current BASE_URL
+ * @returns Record<string, unknown> - Manifest ready to serialize
+ */
+export function buildWebManifest(base?: string): Record<string, unknown> {
+  return {
+    name: `${siteConfig.name} - Portfolio`,
+    short_name: siteConfig.shortName,
+    description: siteConfig.description,
+    id: withBase('/', base),
+    start_url: withBase('/', base),
+    scope: withBase('/', base),
+    display: 'standalone',
+    background_color: siteConfig.theme.backgroundColor,
+    theme_color: siteConfig.theme.themeColor,
+    orientation: 'portrait-primary',
+    icons: PWA_ICONS
+      .filter(icon => icon.purpose !== 'apple')
+      .map(icon => ({
+        src: withBase(`/${icon.file}`, base),
+        sizes: `${icon.size}x${icon.size}`,
+        type: 'image/png',
+        purpose: icon.purpose,
+      })),
+    shortcuts: [
+      {
+        name: 'Open CV',
+        short_name: 'CV',
+        description: `View ${siteConfig.name}'s CV`,
+        url: withBase(`/cv/${siteConfig.cvFile}`, base),
+      },
+      {
+        name: 'Projects',
+        description: 'Browse featured projects',
+        url: withBase('/#projects', base),
+      },
+    ],
+    categories: ['portfolio', 'developer', 'business'],
+    lang: 'en',
+    dir: 'ltr',
+  };
+}
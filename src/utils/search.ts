@@ -0,0 +1,249 @@
+/**
+ * Client-side project search
+ * The index is built at build time (see src/pages/search-index.json.ts) and
+ * queried in the browser, so no external search service is needed.
+ */
+
+import type { Project } from './content';
+import { getTechnologyKeywords, normalizeTechnologyName } from './technologies';
+
+/** A project as stored in the index (display fields only, no markdown body) */
+export interface SearchDocument {
+  slug: string;
+  title: string;
+  description: string;
+  technologies: string[];
+}
+
+/**
+ * Compact inverted index: each term maps to [documentIndex, weight] pairs.
+ * The markdown body only contributes terms, never stored text.
+ */
+export interface SearchIndex {
+  documents: SearchDocument[];
+  terms: Record<string, [number, number][]>;
+}
+
+export interface SearchResult {
+  document: SearchDocument;
+  score: number;
+  /** Index terms that matched the query, used for highlighting */
+  matchedTerms: string[];
+}
+
+/** Relative weight of a term depending on where it appears */
+const FIELD_WEIGHTS = {
+  title: 5,
+  technologies: 4,
+  description: 2,
+  body: 1,
+};
+
+/** How much each kind of match counts towards the score */
+const MATCH_WEIGHTS = {
+  exact: 1,
+  prefix: 0.75,
+  fuzzy: 0.5,
+};
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'in', 'is',
+  'it', 'of', 'on', 'or', 'that', 'the', 'this', 'to', 'was', 'with',
+]);
+
+/**
+ * Splits text into lowercase search terms, dropping stop words
+ * @param text - Any plain or markdown text
+ * @returns string[] - Terms in order of appearance (may contain duplicates)
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .split(/[^a-z0-9]+/)
+    .filter(term => term.length > 1 && !STOP_WORDS.has(term));
+}
+
+/**
+ * Removes markdown syntax that should not become search terms
+ * (code fences, link targets, images, HTML tags)
+ */
+export function stripMarkdown(markdown: string): string {
+  return markdown
+    .replace(/```[\s\S]*?```/g, ' ')
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, ' ')
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/[#>*_`~|-]/g, ' ');
+}
+
+/**
+ * Builds the search index for a list of projects
+ * @param projects - Projects to index
+ * @returns SearchIndex - Documents plus the weighted inverted index
+ */
+export function buildSearchIndex(projects: Project[]): SearchIndex {
+  const terms: Record<string, [number, number][]> = {};
+
+  const documents = projects.map((project, index) => {
+    const technologies = project.data.technologies.map(normalizeTechnologyName);
+    const weights = new Map<string, number>();
+
+    const addTerms = (values: string[], weight: number) => {
+      values.forEach(term => {
+        weights.set(term, (weights.get(term) ?? 0) + weight);
+      });
+    };
+
+    addTerms(tokenize(project.data.title), FIELD_WEIGHTS.title);
+    addTerms(technologies.flatMap(tech => getTechnologyKeywords(tech).flatMap(tokenize)), FIELD_WEIGHTS.technologies);
+    addTerms(tokenize(project.data.description), FIELD_WEIGHTS.description);
+    addTerms(tokenize(stripMarkdown(project.body ?? '')), FIELD_WEIGHTS.body);
+
+    weights.forEach((weight, term) => {
+      (terms[term] ??= []).push([index, weight]);
+    });
+
+    return {
+      slug: project.slug,
+      title: project.data.title,
+      description: project.data.description,
+      technologies,
+    };
+  });
+
+  return { documents, terms };
+}
+
+/**
+ * Levenshtein distance, stopping early once it exceeds the limit
+ */
+function editDistance(a: string, b: string, limit: number): number {
+  if (Math.abs(a.length - b.length) > limit) return limit + 1;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > limit) return limit + 1;
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Number of typos tolerated for a query term: none for short terms
+ */
+function allowedTypos(term: string): number {
+  if (term.length >= 8) return 2;
+  if (term.length >= 4) return 1;
+  return 0;
+}
+
+/**
+ * Finds index terms matching a single query term and how strongly they match
+ */
+function matchTerm(index: SearchIndex, queryTerm: string): Map<string, number> {
+  const matches = new Map<string, number>();
+  const typos = allowedTypos(queryTerm);
+
+  Object.keys(index.terms).forEach(term => {
+    if (term === queryTerm) {
+      matches.set(term, MATCH_WEIGHTS.exact);
+    } else if (term.startsWith(queryTerm)) {
+      matches.set(term, MATCH_WEIGHTS.prefix);
+    } else if (typos > 0 && editDistance(term, queryTerm, typos) <= typos) {
+      matches.set(term, MATCH_WEIGHTS.fuzzy);
+    }
+  });
+
+  return matches;
+}
+
+/**
+ * Searches the index with prefix and fuzzy matching.
+ * Every query term must match something in a project for it to be returned.
+ * @param index - Index loaded from search-index.json
+ * @param query - Raw text from the search box
+ * @returns SearchResult[] - Matching projects, best first
+ */
+export function searchProjects(index: SearchIndex, query: string): SearchResult[] {
+  const queryTerms = Array.from(new Set(tokenize(query)));
+  if (queryTerms.length === 0) return [];
+
+  let candidates: Map<number, SearchResult> | undefined;
+
+  for (const queryTerm of queryTerms) {
+    const found = new Map<number, SearchResult>();
+
+    matchTerm(index, queryTerm).forEach((matchWeight, term) => {
+      index.terms[term].forEach(([documentIndex, fieldWeight]) => {
+        const result = found.get(documentIndex) ?? {
+          document: index.documents[documentIndex],
+          score: 0,
+          matchedTerms: [],
+        };
+        result.score += matchWeight * fieldWeight;
+        result.matchedTerms.push(term);
+        found.set(documentIndex, result);
+      });
+    });
+
+    if (!candidates) {
+      candidates = found;
+      continue;
+    }
+
+    // Keep only projects that also match this query term
+    const remaining = new Map<number, SearchResult>();
+    found.forEach((result, documentIndex) => {
+      const earlier = candidates!.get(documentIndex);
+      if (!earlier) return;
+      remaining.set(documentIndex, {
+        document: result.document,
+        score: earlier.score + result.score,
+        matchedTerms: [...earlier.matchedTerms, ...result.matchedTerms],
+      });
+    });
+    candidates = remaining;
+  }
+
+  return Array.from(candidates?.values() ?? []).sort((a, b) => {
+    if (a.score !== b.score) return b.score - a.score;
+    return a.document.title.localeCompare(b.document.title);
+  });
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Wraps words whose search term matched in <mark>, escaping everything else
+ * @param text - Plain text to display (title, description, technology)
+ * @param matchedTerms - Terms from SearchResult.matchedTerms
+ * @returns string - Safe HTML
+ */
+export function highlightMatches(text: string, matchedTerms: string[]): string {
+  if (matchedTerms.length === 0) return escapeHtml(text);
+  const matched = new Set(matchedTerms);
+
+  return text
+    .split(/([^\p{L}\p{N}]+)/u)
+    .map(part => {
+      const isMatch = tokenize(part).some(term => matched.has(term));
+      return isMatch ? `<mark>${escapeHtml(part)}</mark>` : escapeHtml(part);
+    })
+    .join('');
+}
@@ -0,0 +1,287 @@
+/**
+ * SEO audit
+ * Checks the HTML the build wrote to dist: title and description lengths,
+ * canonical URLs, duplicate titles, image alt text and JSON-LD. Runs after the
+ * build (scripts/seo-audit.js) and produces a machine-readable report.
+ */
+
+import fs from 'node:fs';
+import path from 'node:path';
+import { JSDOM } from 'jsdom';
+import { SEO_LIMITS } from '../config/seo';
+import type { DeploymentProfile } from '../config/deployment';
+
+export type SeoAuditSeverity = 'error' | 'warning';
+
+export type SeoAuditRule =
+  | 'title'
+  | 'description'
+  | 'canonical'
+  | 'duplicate-title'
+  | 'img-alt'
+  | 'json-ld'
+  | 'site-files';
+
+export interface SeoAuditIssue {
+  severity: SeoAuditSeverity;
+  rule: SeoAuditRule;
+  /** HTML file relative to dist, or the missing site file */
+  file: string;
+  message: string;
+}
+
+export interface SeoAuditReport {
+  site: string;
+  base: string;
+  /** Number of HTML files audited */
+  pages: number;
+  errors: number;
+  warnings: number;
+  issues: SeoAuditIssue[];
+}
+
+export type SeoAuditTarget = Pick<DeploymentProfile, 'site' | 'base' | 'canonicalHost'>;
+
+export interface PageAudit {
+  issues: SeoAuditIssue[];
+  title?: string;
+  /** False for error pages and noindex pages, which skip the search result checks */
+  indexable: boolean;
+}
+
+/** Descriptions shorter than this are often replaced by search engines */
+const MIN_DESCRIPTION_LENGTH = 50;
+
+/** Pages served for errors rather than linked to */
+const ERROR_PAGES = ['404.html', '500.html'];
+
+/** Files every deployment needs next to the pages */
+const SITE_FILES = [['sitemap-index.xml', 'sitemap.xml'], ['robots.txt']];
+
+/**
+ * schema.org types the site emits, with the properties each node needs.
+ * Anything else in the JSON-LD is a mistake.
+ */
+export const STRUCTURED_DATA_SCHEMAS: Record<string, string[]> = {
+  Person: ['name', 'url'],
+  ProfilePage: ['mainEntity'],
+  WebSite: ['name', 'url'],
+  CreativeWork: ['name', 'author'],
+  SoftwareApplication: ['name', 'author', 'applicationCategory'],
+  ItemList: ['itemListElement'],
+  BreadcrumbList: ['itemListElement'],
+  ListItem: ['position'],
+  FAQPage: ['mainEntity'],
+  Question: ['name', 'acceptedAnswer'],
+  Answer: ['text'],
+  Occupation: ['name'],
+  Place: ['name'],
+};
+
+type JsonLdNode = Record<string, unknown>;
+
+const isNode = (value: unknown): value is JsonLdNode =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isReference = (node: JsonLdNode) => Object.keys(node).length === 1 && typeof node['@id'] === 'string';
+
+/**
+ * Gets the URL path a dist file is served at, without the deploy base
+ * @param file - HTML file relative to dist, e.g. "projects/animet/index.html"
+ * @returns string - e.g. "/projects/animet/"
+ */
+export function getPagePath(file: string): string {
+  const normalized = file.split(path.sep).join('/');
+  if (normalized === 'index.html') return '/';
+  return normalized.endsWith('/index.html')
+    ? `/${normalized.slice(0, -'index.html'.length)}`
+    : `/${normalized.replace(/\.html$/, '')}`;
+}
+
+/**
+ * Builds the canonical URL a page must declare
+ * @param file - HTML file relative to dist
+ * @param target - Site, base and canonical host of the build
+ * @returns string - Absolute canonical URL
+ */
+export function getExpectedCanonical(file: string, target: SeoAuditTarget): string {
+  const { protocol } = new URL(target.site);
+  const base = target.base === '/' ? '' : target.base.replace(/\/$/, '');
+  return `${protocol}//${target.canonicalHost}${base}${getPagePath(file)}`;
+}
+
+/**
+ * Checks the JSON-LD nodes of a page: expected types, required properties and @id references
+ * @param blocks - Parsed JSON-LD blocks
+ * @returns string[] - Problems found, empty when the structured data is valid
+ */
+export function validateStructuredData(blocks: unknown[]): string[] {
+  const problems: string[] = [];
+  const ids = new Set<string>();
+  const references: string[] = [];
+
+  const visit = (value: unknown, where: string) => {
+    if (Array.isArray(value)) {
+      value.forEach((item, index) => visit(item, `${where}[${index}]`));
+      return;
+    }
+    if (!isNode(value)) return;
+
+    if (isReference(value)) {
+      references.push(value['@id'] as string);
+      return;
+    }
+    if (typeof value['@id'] === 'string') ids.add(value['@id']);
+
+    const type = value['@type'];
+    if (typeof type === 'string') {
+      const required = STRUCTURED_DATA_SCHEMAS[type];
+      if (!required) {
+        problems.push(`${where}: unexpected type "${type}"`);
+      } else {
+        required
+          .filter(property => value[property] === undefined || value[property] === null || value[property] === '')
+          .forEach(property => problems.push(`${where}: ${type} is missing "${property}"`));
+      }
+    }
+
+    Object.entries(value)
+      .filter(([key]) => !key.startsWith('@'))
+      .forEach(([key, child]) => visit(child, `${where}.${key}`));
+  };
+
+  blocks.forEach((block, index) => {
+    const where = `block ${index + 1}`;
+    if (!isNode(block)) {
+      problems.push(`${where}: expected a JSON object`);
+      return;
+    }
+    if (block['@context'] !== 'https://schema.org') {
+      problems.push(`${where}: "@context" must be "https://schema.org"`);
+    }
+    if (typeof block['@type'] !== 'string') {
+      problems.push(`${where}: missing "@type"`);
+    }
+    visit(block, where);
+  });
+
+  references
+    .filter(id => !ids.has(id))
+    .forEach(id => problems.push(`reference to "${id}" does not match any node on the page`));
+
+  return problems;
+}
+
+/**
+ * Audits one page
+ * @param html - Page HTML
+ * @param file - HTML file relative to dist
+ * @param target - Site, base and canonical host of the build
+ * @returns PageAudit - Issues, title and whether the page is meant to be indexed
+ */
+export function auditPage(html: string, file: string, target: SeoAuditTarget): PageAudit {
+  const { document } = new JSDOM(html).window;
+  const issues: SeoAuditIssue[] = [];
+  const report = (severity: SeoAuditSeverity, rule: SeoAuditRule, message: string) =>
+    issues.push({ severity, rule, file, message });
+
+  const robots = document.querySelector('meta[name="robots"]')?.getAttribute('content') ?? '';
+  const indexable = !ERROR_PAGES.includes(file) && !/noindex/i.test(robots);
+  const title = document.querySelector('title')?.textContent?.trim() || undefined;
+
+  if (indexable) {
+    if (!title) {
+      report('error', 'title', 'Missing <title>');
+    } else if (title.length > SEO_LIMITS.title) {
+      report('error', 'title', `Title is ${title.length} characters, the limit is ${SEO_LIMITS.title}`);
+    }
+
+    const description = document.querySelector('meta[name="description"]')?.getAttribute('content')?.trim();
+    if (!description) {
+      report('error', 'description', 'Missing meta description');
+    } else if (description.length > SEO_LIMITS.description) {
+      report('error', 'description', `Description is ${description.length} characters, the limit is ${SEO_LIMITS.description}`);
+    } else if (description.length < MIN_DESCRIPTION_LENGTH) {
+      report('warning', 'description', `Description is only ${description.length} characters`);
+    }
+
+    const canonical = document.querySelector('link[rel="canonical"]')?.getAttribute('href');
+    const expected = getExpectedCanonical(file, target);
+    if (!canonical) {
+      report('error', 'canonical', 'Missing canonical link');
+    } else if (canonical !== expected) {
+      report('error', 'canonical', `Canonical is ${canonical}, expected ${expected}`);
+    }
+  }
+
+  document.querySelectorAll('img:not([alt])').forEach(img => {
+    report('error', 'img-alt', `<img src="${img.getAttribute('src') ?? ''}"> has no alt attribute`);
+  });
+
+  const blocks: unknown[] = [];
+  document.querySelectorAll('script[type="application/ld+json"]').forEach((script, index) => {
+    try {
+      blocks.push(JSON.parse(script.textContent ?? ''));
+    } catch (error) {
+      report('error', 'json-ld', `JSON-LD block ${index + 1} does not parse: ${(error as Error).message}`);
+    }
+  });
+  validateStructuredData(blocks).forEach(problem => report('error', 'json-ld', problem));
+
+  return { issues, title, indexable };
+}
+
+const listHtmlFiles = (dir: string): string[] =>
+  fs.readdirSync(dir, { withFileTypes: true }).flatMap(entry => {
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) return listHtmlFiles(fullPath);
+    return entry.name.endsWith('.html') ? [fullPath] : [];
+  });
+
+/**
+ * Audits every page of a build
+ * @param distDir - Absolute path of the build output
+ * @param target - Site, base and canonical host the build was made for
+ * @returns SeoAuditReport - All issues, errors first
+ */
+export function auditSeo(distDir: string, target: SeoAuditTarget): SeoAuditReport {
+  const files = listHtmlFiles(distDir)
+    .map(fullPath => path.relative(distDir, fullPath).split(path.sep).join('/'))
+    .sort();
+
+  const issues: SeoAuditIssue[] = [];
+  const titles = new Map<string, string[]>();
+
+  files.forEach(file => {
+    const page = auditPage(fs.readFileSync(path.join(distDir, file), 'utf-8'), file, target);
+    issues.push(...page.issues);
+    if (page.indexable && page.title) {
+      titles.set(page.title, [...(titles.get(page.title) ?? []), file]);
+    }
+  });
+
+  titles.forEach((pages, title) => {
+    if (pages.length < 2) return;
+    pages.forEach(file => issues.push({
+      severity: 'error',
+      rule: 'duplicate-title',
+      file,
+      message: `Title "${title}" is also used by ${pages.filter(other => other !== file).join(', ')}`,
+    }));
+  });
+
+  SITE_FILES
+    .filter(candidates => !candidates.some(candidate => fs.existsSync(path.join(distDir, candidate))))
+    .forEach(([file]) => issues.push({ severity: 'error', rule: 'site-files', file, message: `${file} not found` }));
+
+  issues.sort((a, b) => (a.severity === b.severity ? 0 : a.severity === 'error' ? -1 : 1));
+
+  return {
+    site: target.site,
+    base: target.base,
+    pages: files.length,
+    errors: issues.filter(issue => issue.severity === 'error').length,
+    warnings: issues.filter(issue => issue.severity === 'warning').length,
+    issues,
+  };
+}
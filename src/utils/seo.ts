@@ -1,4 +1,9 @@
 import type { CollectionEntry } from 'astro:content';
+import { getTechnologyKeywords, resolveTechnology } from './technologies';
+import { isPublished, groupProjectsByTechnology, type FaqItem } from './content';
+import { siteConfig, getSocialProfileUrls } from '../config/site';
+import { SEO_LIMITS } from '../config/seo';
+import { getOgImagePath } from './og-image';
 
 export interface SEOConfig {
   title: string;
@@ -18,9 +23,9 @@ export interface ProjectStructuredData {
   '@type': string;
   name: string;
   description: string;
+  /** Reference to the Person node emitted on every page */
   author: {
-    '@type': string;
-    name: string;
+    '@id': string;
   };
   dateCreated: string;
   dateModified?: string;
@@ -33,13 +38,105 @@ export interface ProjectStructuredData {
   operatingSystem: string;
 }
 
+export interface PersonStructuredData {
+  '@context'?: string;
+  '@type': 'Person';
+  '@id': string;
+  name: string;
+  jobTitle: string;
+  description: string;
+  url: string;
+  email: string;
+  image?: string;
+  sameAs: string[];
+  knowsAbout: string[];
+  hasOccupation: {
+    '@type': 'Occupation';
+    name: string;
+    occupationLocation: {
+      '@type': 'Place';
+      name: string;
+    };
+  };
+}
+
+/**
+ * Gets the @id of the site owner's Person node, so other nodes can reference it
+ * @param baseUrl - Absolute site base (origin and deploy subpath)
+ * @returns string - e.g. "https://example.com/#person"
+ */
+export function getPersonId(baseUrl: string = siteConfig.url): string {
+  return `${baseUrl}/#person`;
+}
+
+/**
+ * Generate structured data for the site owner from the site config
+ * @param projects - Projects whose technologies make up knowsAbout, most used first
+ * @param baseUrl - Absolute site base (origin and deploy subpath)
+ * @param image - Absolute URL of the profile photo
+ * @returns PersonStructuredData - Person node
+ */
+export function generatePersonStructuredData(
+  projects: CollectionEntry<'projects'>[],
+  baseUrl: string = siteConfig.url,
+  image?: string
+): PersonStructuredData {
+  const publishedProjects = projects.filter(project => isPublished(project));
+
+  return {
+    '@context': 'https://schema.org',
+    '@type': 'Person',
+    '@id': getPersonId(baseUrl),
+    name: siteConfig.name,
+    jobTitle: siteConfig.jobTitle,
+    description: siteConfig.description,
+    url: `${baseUrl}/`,
+    email: siteConfig.contact.email,
+    ...(image && { image }),
+    sameAs: getSocialProfileUrls(),
+    knowsAbout: groupProjectsByTechnology(publishedProjects).map(group => group.technology.name),
+    hasOccupation: {
+      '@type': 'Occupation',
+      name: siteConfig.jobTitle,
+      occupationLocation: {
+        '@type': 'Place',
+        name: siteConfig.contact.location ?? 'Remote'
+      }
+    }
+  };
+}
+
+/**
+ * Generate ProfilePage structured data around the site owner's Person node
+ * @param person - Person node from generatePersonStructuredData
+ * @param baseUrl - Absolute site base (origin and deploy subpath)
+ * @param dateModified - When the profile content last changed, left out when unknown
+ * @returns ProfilePage node with the person as its main entity
+ */
+export function generateProfilePageStructuredData(
+  person: PersonStructuredData,
+  baseUrl: string = siteConfig.url,
+  dateModified?: Date
+) {
+  const { '@context': _context, ...mainEntity } = person;
+
+  return {
+    '@context': 'https://schema.org',
+    '@type': 'ProfilePage',
+    '@id': `${baseUrl}/`,
+    url: `${baseUrl}/`,
+    name: `${siteConfig.name} - ${siteConfig.jobTitle}`,
+    ...(dateModified && { dateModified: dateModified.toISOString() }),
+    mainEntity
+  };
+}
+
 /**
  * Generate structured data for a project
  */
 export function generateProjectStructuredData(
   project: CollectionEntry<'projects'>,
-  authorName: string = 'John Developer',
-  baseUrl: string = 'https://johndeveloper.dev'
+  baseUrl: string = siteConfig.url
 ): ProjectStructuredData {
   return {
     '@context': 'https://schema.org',
@@ -47,8 +144,7 @@ export function generateProjectStructuredData(
     name: project.data.title,
     description: project.data.description,
     author: {
-      '@type': 'Person',
-      name: authorName
+      '@id': getPersonId(baseUrl)
     },
     dateCreated: project.data.publishDate instanceof Date && !isNaN(project.data.publishDate.getTime()) 
       ? project.data.publishDate.toISOString().split('T')[0] 
@@ -64,11 +160,8 @@ export function generateProjectStructuredData(
       : [],
     url: project.data.links.main,
     codeRepository: project.data.links.github,
-    image: project.data.thumbnail && typeof project.data.thumbnail === 'string' && project.data.thumbnail.startsWith('http') 
-      ? project.data.thumbnail 
-      : project.data.thumbnail && typeof project.data.thumbnail === 'string'
-        ? `${baseUrl}${project.data.thumbnail}`
-        : `${baseUrl}/images/default-project.jpg`,
+    // Same card as the page's og:image
+    image: `${baseUrl}${getOgImagePath(project.slug)}`,
     applicationCategory: 'DeveloperApplication',
     operatingSystem: 'Web Browser'
   };
@@ -79,19 +172,22 @@ export function generateProjectStructuredData(
  */
 export function generatePortfolioStructuredData(
   projects: CollectionEntry<'projects'>[],
-  authorName: string = 'John Developer',
-  baseUrl: string = 'https://johndeveloper.dev'
+  baseUrl: string = siteConfig.url,
+  list: { name?: string; description?: string } = {}
 ) {
+  // Drafts shown in dev must never leak into structured data
+  const publishedProjects = projects.filter(project => isPublished(project));
+
   return {
     '@context': 'https://schema.org',
     '@type': 'ItemList',
-    name: 'Developer Portfolio Projects',
-    description: 'A collection of full-stack development projects showcasing technical expertise',
-    numberOfItems: projects.length,
-    itemListElement: projects.map((project, index) => ({
+    name: list.name || 'Developer Portfolio Projects',
+    description: list.description || 'A collection of full-stack development projects showcasing technical expertise',
+    numberOfItems: publishedProjects.length,
+    itemListElement: publishedProjects.map((project, index) => ({
       '@type': 'ListItem',
       position: index + 1,
-      item: generateProjectStructuredData(project, authorName, baseUrl)
+      item: generateProjectStructuredData(project, baseUrl)
     }))
   };
 }
@@ -101,7 +197,7 @@ export function generatePortfolioStructuredData(
  */
 export function generateBreadcrumbStructuredData(
   items: Array<{ name: string; url: string }>,
-  baseUrl: string = 'https://johndeveloper.dev'
+  baseUrl: string = siteConfig.url
 ) {
   return {
     '@context': 'https://schema.org',
@@ -116,46 +212,23 @@ export function generateBreadcrumbStructuredData(
 }
 
 /**
- * Generate FAQ structured data for common portfolio questions
+ * Generate FAQ structured data from the FAQ collection
+ * Answers keep their HTML, which is the same markup the FAQ section shows.
+ * @param faqs - Items from getFaqItems()
+ * @returns FAQPage node
  */
-export function generateFAQStructuredData() {
+export function generateFAQStructuredData(faqs: FaqItem[]) {
   return {
     '@context': 'https://schema.org',
     '@type': 'FAQPage',
-    mainEntity: [
-      {
-        '@type': 'Question',
-        name: 'What technologies do you specialize in?',
-        acceptedAnswer: {
-          '@type': 'Answer',
-          text: 'I specialize in full-stack development with expertise in JavaScript, TypeScript, React, Vue.js, Node.js, and modern web technologies. I also work with databases, cloud services, and DevOps tools.'
-        }
-      },
-      {
-        '@type': 'Question',
-        name: 'How can I view your CV?',
-        acceptedAnswer: {
-          '@type': 'Answer',
-          text: 'You can view my CV by clicking the CV button in the top right corner of the website. It will open an interactive viewer where you can browse through my professional experience and qualifications.'
-        }
-      },
-      {
-        '@type': 'Question',
-        name: 'Are you available for freelance projects?',
-        acceptedAnswer: {
-          '@type': 'Answer',
-          text: 'Yes, I am available for freelance projects and consulting work. Please feel free to contact me through the provided contact information to discuss your project requirements.'
-        }
-      },
-      {
-        '@type': 'Question',
-        name: 'What is your development approach?',
-        acceptedAnswer: {
-          '@type': 'Answer',
-          text: 'I follow modern development practices including test-driven development, agile methodologies, clean code principles, and performance optimization. I focus on creating scalable, maintainable, and user-friendly applications.'
-        }
+    mainEntity: faqs.map(faq => ({
+      '@type': 'Question',
+      name: faq.question,
+      acceptedAnswer: {
+        '@type': 'Answer',
+        text: faq.answerHtml
       }
-    ]
+    }))
   };
 }
 
@@ -190,75 +263,46 @@ export function generateMetaDescription(content: string, maxLength: number = 160
 }
 
 /**
- * Generate keywords from project data
+ * Generate keywords from project data.
+ * Technology spellings and variations come from the technology registry.
  */
 export function generateKeywords(
   projects: CollectionEntry<'projects'>[],
   baseKeywords: string[] = []
 ): string[] {
-  const techKeywords = new Set(baseKeywords);
-  
+  const keywords = new Set<string>();
+
+  baseKeywords.forEach(keyword => {
+    keywords.add(keyword.toLowerCase());
+    // Base keywords that name a known technology get its variations too
+    if (resolveTechnology(keyword)) {
+      getTechnologyKeywords(keyword).forEach(variant => keywords.add(variant));
+    }
+  });
+
   projects.forEach(project => {
     project.data.technologies.forEach(tech => {
-      const lowerTech = tech.toLowerCase();
-      techKeywords.add(lowerTech);
-      
-      // Add specific mappings for common technologies
-      if (lowerTech.includes('node.js')) {
-        techKeywords.add('node');
-        techKeywords.add('nodejs');
-      }
-      if (lowerTech.includes('react')) {
-        techKeywords.add('react');
-        techKeywords.add('reactjs');
-      }
-      if (lowerTech.includes('vue')) {
-        techKeywords.add('vue');
-        techKeywords.add('vuejs');
-      }
+      getTechnologyKeywords(tech).forEach(variant => keywords.add(variant));
     });
   });
 
-  // Add common variations and related terms
-  const keywordMap: Record<string, string[]> = {
-    'react': ['react.js', 'reactjs'],
-    'vue': ['vue.js', 'vuejs'],
-    'node': ['node.js', 'nodejs'],
-    'node.js': ['node', 'nodejs'],
-    'javascript': ['js', 'es6', 'es2015+'],
-    'typescript': ['ts'],
-    'css': ['css3', 'styling'],
-    'html': ['html5', 'markup'],
-    'git': ['version control', 'github'],
-    'api': ['rest api', 'api development'],
-    'database': ['db', 'data storage']
-  };
-
-  const expandedKeywords = new Set(techKeywords);
-  
-  techKeywords.forEach(keyword => {
-    if (keywordMap[keyword]) {
-      keywordMap[keyword].forEach(variant => expandedKeywords.add(variant));
-    }
-  });
-
-  return Array.from(expandedKeywords).sort();
+  return Array.from(keywords).sort();
 }
 
 /**
  * Validate and sanitize SEO data
  */
 export function sanitizeSEOData(data: Partial<SEOConfig>): SEOConfig {
-  const sanitizedTitle = data.title ? data.title.trim().substring(0, 60).trim() : 'Portfolio - Full Stack Developer';
-  const sanitizedDescription = data.description ? data.description.trim().substring(0, 160).trim() : 'Modern portfolio showcasing full-stack development projects and expertise';
+  const sanitizedTitle = data.title ? data.title.trim().substring(0, SEO_LIMITS.title).trim() : 'Portfolio - Full Stack Developer';
+  const sanitizedDescription = data.description ? data.description.trim().substring(0, SEO_LIMITS.description).trim() : 'Modern portfolio showcasing full-stack development projects and expertise';
   
   return {
     title: sanitizedTitle,
     description: sanitizedDescription,
-    image: data.image || '/images/og-image.svg',
+    image: data.image || getOgImagePath(),
     keywords: data.keywords?.slice(0, 10) || ['developer', 'portfolio', 'full-stack'],
     type: data.type || 'website',
-    author: data.author?.trim() || 'John Developer',
+    author: data.author?.trim() || siteConfig.name,
     publishDate: data.publishDate,
     modifiedDate: data.modifiedDate,
     noindex: data.noindex || false,
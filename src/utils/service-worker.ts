@@ -0,0 +1,232 @@
+/**
+ * Service worker generation
+ * The service worker is written after the build from the real dist file list,
+ * so the precache only names files Astro actually emitted. Each entry carries a
+ * content revision: sw.js changes exactly when a precached file does, and an
+ * update only downloads the entries whose revision changed.
+ */
+
+import { createHash } from 'node:crypto';
+
+export interface PrecacheEntry {
+  /** URL including the deploy base */
+  url: string;
+  /** Content hash of the file */
+  revision: string;
+}
+
+/** A file in the build output, path relative to dist and using forward slashes */
+export interface BuildFile {
+  path: string;
+  content: Uint8Array | string;
+}
+
+/**
+ * Files installed up front. Everything else (e.g. the responsive image variants)
+ * is cached at runtime the first time it is requested.
+ */
+export const PRECACHE_PATTERNS: RegExp[] = [
+  /\.html$/,
+  /^assets\/.+\.(js|css)$/,
+  /^(favicon\.svg|manifest\.webmanifest|search-index\.json)$/,
+  /^icons\/[^/]+\.png$/,
+  /^cv\/[^/]+\.pdf$/,
+];
+
+export const CACHE_PREFIX = 'portfolio';
+
+/** Query parameter that keys precached responses by revision */
+export const REVISION_PARAM = '__revision';
+
+/** Page served for navigations that fail offline (src/pages/offline.astro) */
+export const OFFLINE_PATH = '/offline/';
+
+/**
+ * Hashes file contents for precache revisions
+ * @param content - File contents
+ * @returns string - Short hex digest
+ */
+export function hashContent(content: Uint8Array | string): string {
+  return createHash('sha256').update(content).digest('hex').slice(0, 12);
+}
+
+/**
+ * Maps a dist path to the URL it is served from
+ * @param filePath - Path relative to dist, e.g. "projects/animet/index.html"
+ * @param base - Deploy base without trailing slash, e.g. "/repo" or ""
+ * @returns string - URL like "/repo/projects/animet/"
+ */
+export function getFileUrl(filePath: string, base: string): string {
+  const urlPath = filePath === 'index.html' || filePath.endsWith('/index.html')
+    ? filePath.slice(0, -'index.html'.length)
+    : filePath;
+  return `${base}/${urlPath}`;
+}
+
+/**
+ * Builds the precache manifest from the build output
+ * @param files - Files in dist
+ * @param base - Deploy base without trailing slash
+ * @returns PrecacheEntry[] - Entries sorted by URL
+ */
+export function buildPrecacheManifest(files: BuildFile[], base: string): PrecacheEntry[] {
+  return files
+    .filter(file => PRECACHE_PATTERNS.some(pattern => pattern.test(file.path)))
+    .map(file => ({ url: getFileUrl(file.path, base), revision: hashContent(file.content) }))
+    .sort((a, b) => a.url.localeCompare(b.url));
+}
+
+/**
+ * Generates the service worker script
+ * Routes: precached files (the CV included) come from the precache, keyed by URL and
+ * revision; other CV documents and images are stale-while-revalidate, hashed assets
+ * cache-first and HTML network-first, falling back to the cached page and then to
+ * the offline page.
+ * @param manifest - Precache manifest
+ * @param base - Deploy base without trailing slash
+ * @returns string - Service worker source
+ */
+export function generateServiceWorker(manifest: PrecacheEntry[], base: string): string {
+  return `// Service Worker for Portfolio Site (generated at build time, do not edit)
+const BASE = ${JSON.stringify(base)};
+const HOME_URL = ${JSON.stringify(`${base}/`)};
+const ASSETS_PREFIX = ${JSON.stringify(`${base}/assets/`)};
+const ICON_URL = ${JSON.stringify(`${base}/favicon.svg`)};
+const OFFLINE_URL = ${JSON.stringify(`${base}${OFFLINE_PATH}`)};
+const DOCUMENTS_PREFIX = ${JSON.stringify(`${base}/cv/`)};
+const PRECACHE = ${JSON.stringify(`${CACHE_PREFIX}-precache`)};
+const RUNTIME_CACHES = {
+  assets: ${JSON.stringify(`${CACHE_PREFIX}-assets`)},
+  documents: ${JSON.stringify(`${CACHE_PREFIX}-documents`)},
+  images: ${JSON.stringify(`${CACHE_PREFIX}-images`)},
+  pages: ${JSON.stringify(`${CACHE_PREFIX}-pages`)}
+};
+const PRECACHE_MANIFEST = ${JSON.stringify(manifest, null, 2)};
+// Cache key of each precached URL: the URL followed by ?${REVISION_PARAM}=<content hash>
+const PRECACHE_KEYS = new Map(PRECACHE_MANIFEST.map((entry) => [entry.url, entry.url + '?${REVISION_PARAM}=' + entry.revision]));
+const IMAGE_EXTENSION = /\\.(png|jpe?g|gif|webp|avif|svg|ico)$/i;
+
+// Install event - download the precache entries whose revision is not cached yet;
+// unchanged files are kept from the previous build. An updated worker then waits
+// until the page asks it to take over, so open tabs never mix old and new assets
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(PRECACHE).then((cache) => Promise.all(
+      [...PRECACHE_KEYS].map(([url, key]) => cache.match(key).then((cached) => cached || fetch(url, { cache: 'no-cache' })
+        .then((response) => {
+          if (!response.ok) throw new Error('Precaching ' + url + ' failed with ' + response.status);
+          return cache.put(key, response);
+        })))
+    ))
+  );
+});
+
+// Message event - the visitor accepted the "new version" prompt
+self.addEventListener('message', (event) => {
+  if (event.data && event.data.type === 'SKIP_WAITING') {
+    self.skipWaiting();
+  }
+});
+
+// Activate event - drop caches this worker does not use and the precache entries
+// of revisions that are no longer in the manifest
+self.addEventListener('activate', (event) => {
+  const current = new Set([PRECACHE, ...Object.values(RUNTIME_CACHES)]);
+  const currentKeys = new Set(PRECACHE_KEYS.values());
+  event.waitUntil(
+    caches.keys()
+      .then((cacheNames) => Promise.all(
+        cacheNames
+          .filter((cacheName) => cacheName.startsWith(${JSON.stringify(`${CACHE_PREFIX}-`)}) && !current.has(cacheName))
+          .map((cacheName) => caches.delete(cacheName))
+      ))
+      .then(() => caches.open(PRECACHE))
+      .then((cache) => cache.keys().then((requests) => Promise.all(
+        requests
+          .filter((request) => {
+            const url = new URL(request.url);
+            return !currentKeys.has(url.pathname + url.search);
+          })
+          .map((request) => cache.delete(request))
+      )))
+      .then(() => self.clients.claim())
+  );
+});
+
+const putInCache = (cacheName, request, response) => {
+  if (response && response.ok && response.type === 'basic') {
+    const copy = response.clone();
+    caches.open(cacheName).then((cache) => cache.put(request, copy));
+  }
+  return response;
+};
+
+const cacheFirst = (request, cacheName) =>
+  caches.match(request).then((cached) => cached || fetch(request).then((response) => putInCache(cacheName, request, response)));
+
+const staleWhileRevalidate = (request, cacheName) =>
+  caches.open(cacheName).then((cache) => cache.match(request).then((cached) => {
+    const network = fetch(request)
+      .then((response) => putInCache(cacheName, request, response))
+      .catch(() => cached);
+    return cached || network;
+  }));
+
+const fromPrecache = (request, pathname) =>
+  caches.open(PRECACHE)
+    .then((cache) => cache.match(PRECACHE_KEYS.get(pathname)))
+    .then((cached) => cached || fetch(request));
+
+// ignoreSearch also finds pages in the precache, whose keys carry their revision
+const networkFirst = (request, cacheName) =>
+  fetch(request)
+    .then((response) => putInCache(cacheName, request, response))
+    .catch(() => caches.match(request, { ignoreSearch: true })
+      .then((cached) => cached || caches.match(OFFLINE_URL, { ignoreSearch: true })));
+
+const isHtmlRequest = (request) =>
+  request.mode === 'navigate' || (request.headers.get('accept') || '').includes('text/html');
+
+// Fetch event - route same-origin GET requests inside the site
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+  if (url.origin !== self.location.origin) return;
+  if (url.pathname !== BASE && !url.pathname.startsWith(HOME_URL)) return;
+
+  if (url.pathname.startsWith(DOCUMENTS_PREFIX)) {
+    // Checked before HTML, as a CV opened in a frame is a navigation. A replaced CV gets
+    // a new revision; documents outside the precache are refreshed in the background
+    event.respondWith(PRECACHE_KEYS.has(url.pathname)
+      ? fromPrecache(request, url.pathname)
+      : staleWhileRevalidate(request, RUNTIME_CACHES.documents));
+  } else if (isHtmlRequest(request)) {
+    event.respondWith(networkFirst(request, RUNTIME_CACHES.pages));
+  } else if (PRECACHE_KEYS.has(url.pathname)) {
+    event.respondWith(fromPrecache(request, url.pathname));
+  } else if (url.pathname.startsWith(ASSETS_PREFIX)) {
+    event.respondWith(cacheFirst(request, RUNTIME_CACHES.assets));
+  } else if (request.destination === 'image' || IMAGE_EXTENSION.test(url.pathname)) {
+    event.respondWith(staleWhileRevalidate(request, RUNTIME_CACHES.images));
+  }
+});
+
+// Push notifications (if implemented)
+self.addEventListener('push', (event) => {
+  if (event.data) {
+    const data = event.data.json();
+
+    event.waitUntil(
+      self.registration.showNotification(data.title, {
+        body: data.body,
+        icon: ICON_URL,
+        badge: ICON_URL,
+        tag: 'portfolio-notification'
+      })
+    );
+  }
+});
+`;
+}
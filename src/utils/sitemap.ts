@@ -0,0 +1,202 @@
+/**
+ * Sitemap entries
+ * Gives each sitemap URL a lastmod from real content dates, a priority from the
+ * project ordering and <image:image> entries for project thumbnails. Runs from
+ * astro.config.mjs, before content collections exist, so it reads the markdown
+ * frontmatter itself.
+ */
+
+import { execFileSync } from 'node:child_process';
+import fs from 'node:fs';
+import path from 'node:path';
+import matter from 'gray-matter';
+import type { SitemapItem } from '@astrojs/sitemap';
+import { sortByStrategy } from './project-order';
+import { isPublished } from './publishing';
+import { getTechnologyPath } from './technologies';
+import { absoluteUrl, getBasePath } from './url';
+
+/** Project frontmatter the sitemap needs */
+export interface SitemapProject {
+  slug: string;
+  title: string;
+  thumbnail: string;
+  technologies: string[];
+  featured: boolean;
+  order: number;
+  publishDate: Date;
+  updatedDate?: Date;
+  draft: boolean;
+  /** Time of the last commit that touched the markdown file */
+  committedDate?: Date;
+}
+
+export interface SitemapPage {
+  lastmod?: Date;
+  priority?: number;
+  /** Root-relative image paths or external URLs */
+  images: string[];
+}
+
+export interface SitemapContent {
+  projects: SitemapProject[];
+  /** Commit times of the other content files (experience, skills, FAQ) */
+  otherContentDates: Date[];
+}
+
+/** Sitemap item with the image extension the sitemap package writes */
+export type SitemapItemWithImages = SitemapItem & { img?: { url: string }[] };
+
+export const HOME_PRIORITY = 1.0;
+
+/**
+ * Priority of the first project; each following one gets `step` less, down to `min`.
+ * The sitemap package writes priorities with one decimal, so smaller steps would collapse.
+ */
+const PROJECT_PRIORITY = { max: 0.9, min: 0.5, step: 0.1 };
+
+/**
+ * Gets the time of the last commit that touched a file
+ * @param file - Path of the file
+ * @returns Date | undefined - Commit time, or undefined outside git or for uncommitted files
+ */
+export function getGitCommitDate(file: string): Date | undefined {
+  try {
+    const output = execFileSync('git', ['log', '-1', '--format=%cI', '--', path.basename(file)], {
+      cwd: path.dirname(file),
+      encoding: 'utf-8',
+      stdio: ['ignore', 'pipe', 'ignore'],
+    }).trim();
+    return output ? new Date(output) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Gets the date a project last changed
+ * @param project - Project frontmatter and commit time
+ * @returns Date | undefined - updatedDate, falling back to the last commit of the file, then publishDate
+ */
+export function getContentDate(project: Pick<SitemapProject, 'publishDate' | 'updatedDate' | 'committedDate'>): Date | undefined {
+  return project.updatedDate ?? project.committedDate ?? project.publishDate;
+}
+
+const latest = (dates: (Date | undefined)[]): Date | undefined =>
+  dates.reduce<Date | undefined>((max, date) => (date && (!max || date > max) ? date : max), undefined);
+
+const listContentFiles = (dir: string): string[] =>
+  fs.existsSync(dir)
+    ? fs.readdirSync(dir, { withFileTypes: true }).flatMap(entry => {
+        const fullPath = path.join(dir, entry.name);
+        if (entry.isDirectory()) return listContentFiles(fullPath);
+        return /\.(md|mdx|json|ya?ml)$/.test(entry.name) ? [fullPath] : [];
+      })
+    : [];
+
+/**
+ * Reads the project frontmatter and content commit times
+ * @param contentDir - Absolute path of src/content
+ * @returns SitemapContent - Projects and the commit times of everything else
+ */
+export function loadSitemapContent(contentDir: string): SitemapContent {
+  const projectsDir = path.join(contentDir, 'projects');
+
+  const projects = listContentFiles(projectsDir).map((file): SitemapProject => {
+    const { data } = matter(fs.readFileSync(file, 'utf-8'));
+    return {
+      slug: data.slug ?? path.basename(file).replace(/\.mdx?$/, ''),
+      title: data.title,
+      thumbnail: data.thumbnail,
+      technologies: data.technologies ?? [],
+      featured: data.featured ?? false,
+      order: data.order ?? 0,
+      publishDate: data.publishDate,
+      updatedDate: data.updatedDate,
+      draft: data.draft ?? false,
+      committedDate: getGitCommitDate(file),
+    };
+  });
+
+  const otherContentDates = fs
+    .readdirSync(contentDir, { withFileTypes: true })
+    .filter(entry => entry.isDirectory() && entry.name !== 'projects')
+    .flatMap(entry => listContentFiles(path.join(contentDir, entry.name)))
+    .map(getGitCommitDate)
+    .filter((date): date is Date => date !== undefined);
+
+  return { projects, otherContentDates };
+}
+
+/**
+ * Builds the sitemap data of every content-driven page
+ * Project pages are ranked like the featured project grid (featured first, then
+ * order), so the top project gets the highest priority.
+ * @param content - Projects and other content dates
+ * @param now - Current time, used to leave out scheduled projects
+ * @returns Map<string, SitemapPage> - Keyed by root-relative path, e.g. "/projects/animet/"
+ */
+export function getSitemapPages(content: SitemapContent, now: Date = new Date()): Map<string, SitemapPage> {
+  const projects = content.projects.filter(project => isPublished({ data: project }, now));
+  const ranked = sortByStrategy(projects, 'featured', project => ({
+    title: project.title,
+    featured: project.featured,
+    order: project.order,
+    publishDate: project.publishDate.getTime(),
+    updatedDate: (project.updatedDate ?? project.publishDate).getTime(),
+  }));
+
+  const pages = new Map<string, SitemapPage>();
+
+  pages.set('/', {
+    lastmod: latest([...projects.map(getContentDate), ...content.otherContentDates]),
+    priority: HOME_PRIORITY,
+    images: [],
+  });
+
+  ranked.forEach((project, rank) => {
+    pages.set(`/projects/${project.slug}/`, {
+      lastmod: getContentDate(project),
+      priority: Math.max(PROJECT_PRIORITY.min, Number((PROJECT_PRIORITY.max - rank * PROJECT_PRIORITY.step).toFixed(1))),
+      images: project.thumbnail ? [project.thumbnail] : [],
+    });
+
+    project.technologies.forEach(technology => {
+      const techPath = getTechnologyPath(technology);
+      const page = pages.get(techPath);
+      pages.set(techPath, { images: [], lastmod: latest([page?.lastmod, getContentDate(project)]) });
+    });
+  });
+
+  return pages;
+}
+
+/**
+ * Creates the serialize hook of @astrojs/sitemap
+ * URLs without sitemap data keep the integration's defaults.
+ * @param pages - Pages from getSitemapPages
+ * @param site - Site origin
+ * @param base - Deploy base
+ * @returns Function - Adds lastmod, priority and images to a sitemap item
+ */
+export function createSitemapSerializer(
+  pages: Map<string, SitemapPage>,
+  site: string,
+  base: string
+): (item: SitemapItemWithImages) => SitemapItemWithImages {
+  const basePath = getBasePath(base);
+
+  return (item) => {
+    const { pathname } = new URL(item.url);
+    const sitePath = pathname.startsWith(basePath) ? pathname.slice(basePath.length) || '/' : pathname;
+    const page = pages.get(sitePath.endsWith('/') ? sitePath : `${sitePath}/`);
+    if (!page) return item;
+
+    return {
+      ...item,
+      ...(page.lastmod && { lastmod: page.lastmod.toISOString() }),
+      ...(page.priority !== undefined && { priority: page.priority }),
+      ...(page.images.length > 0 && { img: page.images.map(image => ({ url: absoluteUrl(image, site, base) })) }),
+    };
+  };
+}
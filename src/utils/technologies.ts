@@ -0,0 +1,141 @@
+/**
+ * Technology taxonomy registry
+ * Single source of truth for technology names, spellings, categories and icons.
+ * Project, experience and skill frontmatter is normalized through it.
+ */
+
+export type TechnologyCategory = 'language' | 'framework' | 'api' | 'database' | 'tool';
+
+export interface Technology {
+  /** URL-safe identifier, also used for icon file names */
+  id: string;
+  /** Canonical display name */
+  name: string;
+  /** Alternative spellings that resolve to this technology */
+  aliases: string[];
+  category: TechnologyCategory;
+  /** Root-relative path to a local SVG icon in /public */
+  icon?: string;
+}
+
+export interface TechnologyDisplay {
+  id: string;
+  name: string;
+  category?: TechnologyCategory;
+  icon?: string;
+}
+
+export const technologies: Technology[] = [
+  // Languages
+  { id: 'javascript', name: 'JavaScript', aliases: ['JS', 'ES6'], category: 'language', icon: '/images/tech/javascript.svg' },
+  { id: 'typescript', name: 'TypeScript', aliases: ['TS'], category: 'language', icon: '/images/tech/typescript.svg' },
+  { id: 'dart', name: 'Dart', aliases: [], category: 'language' },
+  { id: 'rust', name: 'Rust', aliases: [], category: 'language' },
+  { id: 'python', name: 'Python', aliases: [], category: 'language' },
+  { id: 'html', name: 'HTML', aliases: ['HTML5'], category: 'language' },
+  { id: 'css', name: 'CSS', aliases: ['CSS3'], category: 'language' },
+
+  // Frameworks and libraries
+  { id: 'astro', name: 'Astro', aliases: ['Astro.js'], category: 'framework', icon: '/images/tech/astro.svg' },
+  { id: 'vue', name: 'Vue.js', aliases: ['Vue', 'Vuejs'], category: 'framework', icon: '/images/tech/vue.svg' },
+  { id: 'react', name: 'React', aliases: ['React.js', 'ReactJS'], category: 'framework' },
+  { id: 'solid', name: 'SolidJS', aliases: ['Solid', 'Solid.js'], category: 'framework' },
+  { id: 'express', name: 'Express.js', aliases: ['Express', 'Expressjs'], category: 'framework' },
+  { id: 'tailwindcss', name: 'TailwindCSS', aliases: ['Tailwind', 'Tailwind CSS'], category: 'framework' },
+  { id: 'flutter', name: 'Flutter', aliases: [], category: 'framework' },
+
+  // APIs and services
+  { id: 'anilist-api', name: 'AniList API', aliases: ['AniList'], category: 'api' },
+  { id: 'shoprocket', name: 'Shoprocket', aliases: [], category: 'api' },
+
+  // Databases
+  { id: 'mongodb', name: 'MongoDB', aliases: ['Mongo'], category: 'database' },
+  { id: 'postgresql', name: 'PostgreSQL', aliases: ['Postgres'], category: 'database' },
+
+  // Tools, runtimes and platforms
+  { id: 'nodejs', name: 'Node.js', aliases: ['Node', 'NodeJS'], category: 'tool', icon: '/images/tech/nodejs.svg' },
+  { id: 'wordpress', name: 'WordPress', aliases: ['WP'], category: 'tool' },
+  { id: 'git', name: 'Git', aliases: [], category: 'tool' },
+];
+
+/**
+ * Builds the lookup key for a spelling: case, whitespace, dots, dashes and
+ * underscores are ignored so "Vue.js", "vuejs" and "Vue JS" collide.
+ */
+function lookupKey(name: string): string {
+  return name.trim().toLowerCase().replace(/[\s._-]+/g, '');
+}
+
+const registry = new Map<string, Technology>();
+technologies.forEach(technology => {
+  [technology.name, ...technology.aliases].forEach(spelling => {
+    registry.set(lookupKey(spelling), technology);
+  });
+});
+
+/**
+ * Finds the registry entry for any known spelling of a technology
+ * @param name - Technology name as written in frontmatter
+ * @returns Technology | undefined - The entry, or undefined if unknown
+ */
+export function resolveTechnology(name: string): Technology | undefined {
+  return registry.get(lookupKey(name));
+}
+
+/**
+ * Maps a technology spelling to its canonical name
+ * @param name - Technology name as written in frontmatter
+ * @returns string - Canonical name, or the trimmed input if unknown
+ */
+export function normalizeTechnologyName(name: string): string {
+  return resolveTechnology(name)?.name ?? name.trim();
+}
+
+/**
+ * Checks whether two spellings refer to the same technology
+ */
+export function isSameTechnology(a: string, b: string): boolean {
+  const techA = resolveTechnology(a);
+  const techB = resolveTechnology(b);
+  if (techA || techB) return techA === techB;
+  return lookupKey(a) === lookupKey(b);
+}
+
+/**
+ * Gets display data (canonical name, category, icon) for a technology tag
+ * @param name - Technology name as written in frontmatter
+ * @returns TechnologyDisplay - Registry data, or a slugified fallback if unknown
+ */
+export function getTechnologyDisplay(name: string): TechnologyDisplay {
+  const technology = resolveTechnology(name);
+  if (technology) {
+    const { id, name: canonicalName, category, icon } = technology;
+    return { id, name: canonicalName, category, icon };
+  }
+
+  return {
+    id: name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, ''),
+    name: name.trim(),
+  };
+}
+
+/**
+ * Gets lowercase SEO keywords for a technology: its canonical name and aliases
+ * @param name - Technology name as written in frontmatter
+ * @returns string[] - Keywords, or the lowercased input if unknown
+ */
+export function getTechnologyKeywords(name: string): string[] {
+  const technology = resolveTechnology(name);
+  if (!technology) return [name.trim().toLowerCase()];
+
+  return [technology.name, ...technology.aliases].map(spelling => spelling.toLowerCase());
+}
+
+/**
+ * Gets the root-relative landing page path for a technology
+ * @param name - Technology name as written in frontmatter
+ * @returns string - Path like "/tech/vue/" (without the deploy base)
+ */
+export function getTechnologyPath(name: string): string {
+  return `/tech/${getTechnologyDisplay(name).id}/`;
+}
@@ -0,0 +1,48 @@
+/**
+ * URL utilities
+ * Internal links and asset paths go through these helpers so the site works
+ * both at the domain root and under a subpath (e.g. /cdsar626-profile on GitHub Pages).
+ */
+
+const EXTERNAL_URL = /^([a-z][a-z\d+.-]*:|\/\/|#|\?)/i;
+
+/**
+ * Gets the deploy base path without a trailing slash
+ * @param base - Configured base, defaults to Astro's BASE_URL
+ * @returns string - "" for root deployments, otherwise a path like "/repo"
+ */
+export function getBasePath(base: string = import.meta.env.BASE_URL ?? '/'): string {
+  const trimmed = base.replace(/\/+$/, '');
+  return trimmed && !trimmed.startsWith('/') ? `/${trimmed}` : trimmed;
+}
+
+/**
+ * Prefixes a site path with the deploy base
+ * External URLs, anchors and paths that already carry the base are returned unchanged.
+ * @param path - Site path like "/cv/file.pdf" or "projects/animet/"
+ * @param base - Configured base, defaults to Astro's BASE_URL
+ * @returns string - Path like "/repo/cv/file.pdf"
+ */
+export function withBase(path: string, base?: string): string {
+  if (EXTERNAL_URL.test(path)) return path;
+
+  const basePath = getBasePath(base);
+  const sitePath = path.startsWith('/') ? path : `/${path}`;
+
+  if (basePath && (sitePath === basePath || sitePath.startsWith(`${basePath}/`))) {
+    return sitePath;
+  }
+
+  return `${basePath}${sitePath}`;
+}
+
+/**
+ * Builds an absolute URL for a site path, including the deploy base
+ * @param path - Site path like "/og/home.png"
+ * @param site - Site origin (Astro.site or a configured URL)
+ * @param base - Configured base, defaults to Astro's BASE_URL
+ * @returns string - Absolute URL
+ */
+export function absoluteUrl(path: string, site: string | URL, base?: string): string {
+  return new URL(withBase(path, base), site).toString();
+}